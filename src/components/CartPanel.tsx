@@ -0,0 +1,129 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Minus, Plus, ShoppingCart, Trash2 } from 'lucide-react';
+import type { CartableItem, CartLine } from '@/hooks/useCart';
+import { describeBudgetOverrun, getBudgetOverrun, type BudgetStanding } from '@/lib/budget';
+
+interface CartPanelProps<T extends CartableItem> {
+  lines: CartLine<T>[];
+  total: number;
+  // The budget with the least left, which checkout measures the order against
+  budget: BudgetStanding | null;
+  // Which day the cart is charged to, e.g. "today" or "Thursday"
+  dayLabel?: string;
+  checkingOut: boolean;
+  pickupTime: string;
+  // Earliest pickup (HH:mm) still ahead of us on the service day
+  minPickupTime?: string;
+  onPickupTimeChange: (pickupTime: string) => void;
+  onUpdateQuantity: (itemId: string, quantity: number) => void;
+  onRemove: (itemId: string) => void;
+  onCheckout: () => void;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+const CartPanel = <T extends CartableItem>({
+  lines,
+  total,
+  budget,
+  dayLabel = 'today',
+  checkingOut,
+  pickupTime,
+  minPickupTime,
+  onPickupTimeChange,
+  onUpdateQuantity,
+  onRemove,
+  onCheckout
+}: CartPanelProps<T>) => {
+  const overrun = budget ? getBudgetOverrun([budget], total) : null;
+  const isPickupPast = !!pickupTime && !!minPickupTime && pickupTime < minPickupTime;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShoppingCart className="h-5 w-5" />
+          <span>Your Cart</span>
+        </CardTitle>
+        <CardDescription>
+          {budget
+            ? `${formatPrice(budget.remaining)} left in your ${budget.budget_type} budget${dayLabel === 'today' ? '' : ` as of ${dayLabel}`}`
+            : 'Set a budget to track your remaining allowance'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {lines.map(({ item, quantity }) => (
+          <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <p className="font-medium">{item.name}</p>
+              <p className="text-sm text-muted-foreground">{formatPrice(item.price)} each</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onUpdateQuantity(item.id, quantity - 1)}
+                disabled={checkingOut}
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="w-6 text-center font-medium">{quantity}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onUpdateQuantity(item.id, quantity + 1)}
+                disabled={checkingOut}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <span className="w-20 text-right font-bold">{formatPrice(item.price * quantity)}</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRemove(item.id)}
+                disabled={checkingOut}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="pickup-time">Pickup time (optional)</Label>
+          <Input
+            id="pickup-time"
+            type="time"
+            value={pickupTime}
+            min={minPickupTime}
+            onChange={(e) => onPickupTimeChange(e.target.value)}
+            disabled={checkingOut}
+          />
+          {isPickupPast && (
+            <p className="text-sm text-destructive">Pick a time later than {minPickupTime}</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <Badge variant={overrun ? 'destructive' : 'outline'} className="text-lg px-3 py-1">
+            Total: {formatPrice(total)}
+          </Badge>
+          <Button onClick={onCheckout} disabled={checkingOut || lines.length === 0}>
+            {checkingOut ? 'Checking out...' : 'Checkout'}
+          </Button>
+        </div>
+        {overrun && (
+          <p className="text-sm text-destructive">
+            {describeBudgetOverrun(overrun.overBy, overrun.budget_type)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CartPanel;
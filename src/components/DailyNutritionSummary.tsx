@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { addCalendarDays, getCampusDayStart } from '@/lib/dates';
+import {
+  NUTRIENTS,
+  formatNutrient,
+  isNutrientLimit,
+  sumNutrition,
+  toNutritionGoals,
+  type Nutrition
+} from '@/lib/nutrition';
+import { Apple } from 'lucide-react';
+
+interface DailyNutritionSummaryProps {
+  // Campus calendar date (yyyy-MM-dd) whose purchases are totaled
+  date: string;
+  dayLabel?: string;
+  timeZone?: string;
+  refreshToken?: number;
+}
+
+const DailyNutritionSummary = ({ date, dayLabel = 'today', timeZone, refreshToken = 0 }: DailyNutritionSummaryProps) => {
+  const [totals, setTotals] = useState<Nutrition | null>(null);
+  const [goals, setGoals] = useState<Nutrition | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchTotals();
+    }
+  }, [user, date, timeZone, refreshToken]);
+
+  const fetchTotals = async () => {
+    try {
+      // Pre-orders are dated on their service day, so they count toward the day they'll be eaten
+      const [{ data, error }, { data: profile, error: profileError }] = await Promise.all([
+        supabase
+          .from('transactions')
+          .select(`
+            quantity,
+            menu_items (
+              calories,
+              protein_g,
+              carbs_g,
+              fat_g,
+              sodium_mg
+            )
+          `)
+          .eq('user_id', user!.id)
+          .gte('transaction_date', getCampusDayStart(date, timeZone).toISOString())
+          .lt('transaction_date', getCampusDayStart(addCalendarDays(date, 1), timeZone).toISOString()),
+        supabase
+          .from('profiles')
+          .select('calorie_goal, protein_goal_g, carbs_goal_g, fat_goal_g, sodium_goal_mg')
+          .eq('user_id', user!.id)
+          .maybeSingle()
+      ]);
+
+      if (error) throw error;
+      if (profileError) throw profileError;
+
+      const nextGoals = toNutritionGoals(profile);
+      setGoals(NUTRIENTS.some(({ key }) => nextGoals[key] !== null) ? nextGoals : null);
+      setTotals(data && data.length > 0 ? sumNutrition(data) : null);
+    } catch (error) {
+      console.error('Error fetching nutrition totals:', error);
+    }
+  };
+
+  // Nothing to show until the student has either eaten something or set a goal
+  if (!totals && !goals) return null;
+
+  const intake = totals ?? sumNutrition([]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Apple className="h-5 w-5" />
+          <span>Nutrition</span>
+        </CardTitle>
+        <CardDescription>
+          {goals
+            ? `What you've ordered for ${dayLabel} against your daily goals`
+            : `Totals for what you've ordered for ${dayLabel}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {NUTRIENTS.map(({ key, label }) => {
+            const amount = Math.round(intake[key] ?? 0);
+            const goal = goals?.[key] ?? null;
+            const overLimit = goal !== null && isNutrientLimit(key) && amount > goal;
+
+            return (
+              <div key={key} className="space-y-1">
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className={`text-xl font-bold ${overLimit ? 'text-destructive' : ''}`}>
+                  {formatNutrient(key, amount)}
+                </p>
+                {goal !== null && (
+                  <>
+                    <Progress value={Math.min((amount / goal) * 100, 100)} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {isNutrientLimit(key) ? 'Limit' : 'Goal'} {formatNutrient(key, Number(goal))}
+                    </p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DailyNutritionSummary;
@@ -0,0 +1,111 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import MenuItemImage from '@/components/MenuItemImage';
+import { Heart, RotateCcw, ShoppingCart } from 'lucide-react';
+import type { CartableItem } from '@/hooks/useCart';
+
+export interface FavoriteDish {
+  id: string;
+  name: string;
+  thumbnail_path: string | null;
+}
+
+interface FavoritesStripProps<T extends CartableItem> {
+  favorites: FavoriteDish[];
+  // Dishes that can be ordered on the selected day; favorites not among them are shown as unavailable
+  orderableItems: T[];
+  dayLabel: string;
+  // Number of dishes in the student's most recent order here, or 0 if they haven't ordered
+  lastOrderSize: number;
+  disabled: boolean;
+  onAdd: (item: T) => void;
+  onRemoveFavorite: (id: string) => void;
+  onOrderAgain: () => void;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+const FavoritesStrip = <T extends CartableItem>({
+  favorites,
+  orderableItems,
+  dayLabel,
+  lastOrderSize,
+  disabled,
+  onAdd,
+  onRemoveFavorite,
+  onOrderAgain
+}: FavoritesStripProps<T>) => {
+  const availableCount = favorites.filter(favorite => orderableItems.some(item => item.id === favorite.id)).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Heart className="h-5 w-5" />
+              <span>Your Favorites</span>
+            </CardTitle>
+            <CardDescription>
+              {favorites.length > 0
+                ? `${availableCount} of ${favorites.length} available ${dayLabel}`
+                : 'Tap the heart on a dish to keep it here'}
+            </CardDescription>
+          </div>
+          {lastOrderSize > 0 && (
+            <Button variant="outline" onClick={onOrderAgain} disabled={disabled}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Order again
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      {favorites.length > 0 && (
+        <CardContent>
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {favorites.map((favorite) => {
+              const item = orderableItems.find(orderable => orderable.id === favorite.id);
+
+              return (
+                <div
+                  key={favorite.id}
+                  className={`w-40 shrink-0 border rounded-lg overflow-hidden ${item ? '' : 'opacity-60'}`}
+                >
+                  <MenuItemImage path={favorite.thumbnail_path} alt={favorite.name} className="h-20 w-full" />
+                  <div className="p-2 space-y-2">
+                    <div className="flex items-start justify-between">
+                      <p className="text-sm font-medium leading-tight">{favorite.name}</p>
+                      <button
+                        type="button"
+                        title="Remove from favorites"
+                        className="text-primary"
+                        onClick={() => onRemoveFavorite(favorite.id)}
+                      >
+                        <Heart className="h-4 w-4 fill-current" />
+                      </button>
+                    </div>
+                    {item ? (
+                      <Button
+                        size="sm"
+                        className="w-full"
+                        disabled={disabled}
+                        onClick={() => onAdd(item)}
+                      >
+                        <ShoppingCart className="h-4 w-4 mr-2" />
+                        {formatPrice(item.price)}
+                      </Button>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Not available {dayLabel}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default FavoritesStrip;
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatServingWindow, type MealPeriod } from '@/lib/mealPeriods';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+
+interface MealPeriodSettingsProps {
+  cafeteriaId: string;
+  periods: MealPeriod[];
+  onSaved: () => void;
+}
+
+type PeriodDraft = Pick<MealPeriod, 'name' | 'starts_at' | 'ends_at'>;
+
+const EMPTY_PERIOD: PeriodDraft = { name: '', starts_at: '', ends_at: '' };
+
+const MealPeriodSettings = ({ cafeteriaId, periods, onSaved }: MealPeriodSettingsProps) => {
+  const [drafts, setDrafts] = useState<Record<string, PeriodDraft>>({});
+  const [newPeriod, setNewPeriod] = useState<PeriodDraft>(EMPTY_PERIOD);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(
+      periods.map(period => [period.id, {
+        name: period.name,
+        starts_at: period.starts_at.slice(0, 5),
+        ends_at: period.ends_at.slice(0, 5)
+      }])
+    ));
+  }, [periods]);
+
+  const updateDraft = (id: string, changes: Partial<PeriodDraft>) =>
+    setDrafts({ ...drafts, [id]: { ...drafts[id], ...changes } });
+
+  // Returns why the period can't be saved, or null if it's fine
+  const validatePeriod = ({ name, starts_at, ends_at }: PeriodDraft) => {
+    if (!name.trim()) return 'Give the meal period a name';
+    if (!starts_at || !ends_at || ends_at <= starts_at) return `${name.trim()} must end after it starts`;
+    return null;
+  };
+
+  const describeError = (error: unknown, fallback: string) =>
+    (error as { code?: string })?.code === '23505' ? 'This dining hall already has a meal period with that name' : fallback;
+
+  const savePeriod = async (period: MealPeriod) => {
+    const draft = drafts[period.id];
+    const problem = draft ? validatePeriod(draft) : 'Nothing to save';
+    if (problem) {
+      toast({
+        variant: "destructive",
+        title: "Invalid meal period",
+        description: problem
+      });
+      return;
+    }
+
+    setSavingId(period.id);
+    try {
+      const { error } = await supabase
+        .from('meal_periods')
+        .update({ ...draft, name: draft.name.trim() })
+        .eq('id', period.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${draft.name.trim()} updated`
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error updating meal period:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: describeError(error, "Failed to update meal period")
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const createPeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validatePeriod(newPeriod);
+    if (problem) {
+      toast({
+        variant: "destructive",
+        title: "Invalid meal period",
+        description: problem
+      });
+      return;
+    }
+
+    setSavingId('new');
+    try {
+      const { error } = await supabase
+        .from('meal_periods')
+        .insert([{ ...newPeriod, name: newPeriod.name.trim(), cafeteria_id: cafeteriaId }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${newPeriod.name.trim()} added`
+      });
+      setNewPeriod(EMPTY_PERIOD);
+      onSaved();
+    } catch (error) {
+      console.error('Error creating meal period:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: describeError(error, "Failed to add meal period")
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const deletePeriod = async (period: MealPeriod) => {
+    setSavingId(period.id);
+    try {
+      const { error } = await supabase
+        .from('meal_periods')
+        .delete()
+        .eq('id', period.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${period.name} removed. Dishes served only then are now served all day.`
+      });
+      onSaved();
+    } catch (error) {
+      console.error('Error deleting meal period:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove meal period"
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Clock className="h-5 w-5" />
+          <span>Serving Windows</span>
+        </CardTitle>
+        <CardDescription>When each meal period is served, in this dining hall's local time</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {periods.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No meal periods yet, so every dish is served all day. Add one below.
+          </p>
+        )}
+        {periods.map((period) => (
+          <div key={period.id} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div>
+              <Label htmlFor={`name-${period.id}`}>Name</Label>
+              <Input
+                id={`name-${period.id}`}
+                value={drafts[period.id]?.name ?? ''}
+                onChange={(e) => updateDraft(period.id, { name: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">{formatServingWindow(period)}</p>
+            </div>
+            <div>
+              <Label htmlFor={`starts-${period.id}`}>Opens</Label>
+              <Input
+                id={`starts-${period.id}`}
+                type="time"
+                value={drafts[period.id]?.starts_at || ''}
+                onChange={(e) => updateDraft(period.id, { starts_at: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor={`ends-${period.id}`}>Closes</Label>
+              <Input
+                id={`ends-${period.id}`}
+                type="time"
+                value={drafts[period.id]?.ends_at || ''}
+                onChange={(e) => updateDraft(period.id, { ends_at: e.target.value })}
+              />
+            </div>
+            <Button variant="outline" onClick={() => savePeriod(period)} disabled={savingId === period.id}>
+              {savingId === period.id ? 'Saving...' : 'Save'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => deletePeriod(period)}
+              disabled={savingId === period.id}
+              title={`Remove ${period.name}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <form onSubmit={createPeriod} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end pt-3 border-t">
+          <div>
+            <Label htmlFor="new-period-name">New Period</Label>
+            <Input
+              id="new-period-name"
+              value={newPeriod.name}
+              onChange={(e) => setNewPeriod({ ...newPeriod, name: e.target.value })}
+              placeholder="e.g. Late Night"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-period-starts">Opens</Label>
+            <Input
+              id="new-period-starts"
+              type="time"
+              value={newPeriod.starts_at}
+              onChange={(e) => setNewPeriod({ ...newPeriod, starts_at: e.target.value })}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="new-period-ends">Closes</Label>
+            <Input
+              id="new-period-ends"
+              type="time"
+              value={newPeriod.ends_at}
+              onChange={(e) => setNewPeriod({ ...newPeriod, ends_at: e.target.value })}
+              required
+            />
+          </div>
+          <Button type="submit" disabled={savingId === 'new'} className="flex items-center space-x-2">
+            <Plus className="h-4 w-4" />
+            <span>{savingId === 'new' ? 'Adding...' : 'Add Period'}</span>
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MealPeriodSettings;
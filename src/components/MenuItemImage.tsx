@@ -0,0 +1,40 @@
+import { useState, useEffect } from 'react';
+import { getMenuImageUrl } from '@/lib/menuImages';
+import { cn } from '@/lib/utils';
+import { UtensilsCrossed } from 'lucide-react';
+
+interface MenuItemImageProps {
+  path: string | null | undefined;
+  alt: string;
+  className?: string;
+}
+
+// Dishes without a photo, or whose photo fails to load, get a neutral placeholder of the same size
+const MenuItemImage = ({ path, alt, className }: MenuItemImageProps) => {
+  const [failed, setFailed] = useState(false);
+  const url = getMenuImageUrl(path);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [path]);
+
+  if (!url || failed) {
+    return (
+      <div className={cn('flex items-center justify-center bg-muted text-muted-foreground', className)}>
+        <UtensilsCrossed className="h-8 w-8" />
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={url}
+      alt={alt}
+      loading="lazy"
+      className={cn('object-cover', className)}
+      onError={() => setFailed(true)}
+    />
+  );
+};
+
+export default MenuItemImage;
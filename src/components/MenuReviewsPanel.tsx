@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import StarRating from '@/components/StarRating';
+import { format } from 'date-fns';
+import { Eye, EyeOff, Flag, MessageSquare } from 'lucide-react';
+
+type ReviewFilter = 'all' | 'flagged' | 'hidden';
+
+interface MenuReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  is_hidden: boolean;
+  is_flagged: boolean;
+  created_at: string;
+  menu_items: { name: string };
+}
+
+interface MenuReviewsPanelProps {
+  cafeteriaId: string;
+}
+
+const REVIEW_LIMIT = 100;
+
+const MenuReviewsPanel = ({ cafeteriaId }: MenuReviewsPanelProps) => {
+  const [reviews, setReviews] = useState<MenuReview[]>([]);
+  const [filter, setFilter] = useState<ReviewFilter>('all');
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReviews();
+  }, [cafeteriaId, filter]);
+
+  const fetchReviews = async () => {
+    try {
+      let query = supabase
+        .from('menu_item_reviews')
+        .select('id, rating, comment, is_hidden, is_flagged, created_at, menu_items!inner (name)')
+        .eq('menu_items.cafeteria_id', cafeteriaId)
+        .order('created_at', { ascending: false })
+        .limit(REVIEW_LIMIT);
+
+      if (filter === 'flagged') query = query.eq('is_flagged', true);
+      if (filter === 'hidden') query = query.eq('is_hidden', true);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setReviews(data || []);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch reviews"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moderateReview = async (id: string, changes: Partial<Pick<MenuReview, 'is_hidden' | 'is_flagged'>>) => {
+    try {
+      const { error } = await supabase
+        .from('menu_item_reviews')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchReviews();
+    } catch (error) {
+      console.error('Error moderating review:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update review"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <MessageSquare className="h-5 w-5" />
+              <span>Reviews</span>
+            </CardTitle>
+            <CardDescription>
+              What students say about your dishes. Hidden reviews don't count toward a dish's rating.
+            </CardDescription>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as ReviewFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All reviews</SelectItem>
+              <SelectItem value="flagged">Flagged</SelectItem>
+              <SelectItem value="hidden">Hidden</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Loading reviews...</p>
+        ) : reviews.length > 0 ? (
+          <div className="space-y-3">
+            {reviews.map((review) => (
+              <div
+                key={review.id}
+                className={`flex items-start justify-between p-3 border rounded-lg ${review.is_hidden ? 'opacity-60' : ''}`}
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{review.menu_items.name}</span>
+                    <StarRating value={review.rating} />
+                    {review.is_flagged && <Badge variant="destructive">Flagged</Badge>}
+                    {review.is_hidden && <Badge variant="secondary">Hidden</Badge>}
+                  </div>
+                  {review.comment && <p className="text-sm">{review.comment}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(review.created_at), 'MMM dd, yyyy')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title={review.is_flagged ? 'Clear flag' : 'Flag for follow-up'}
+                    onClick={() => moderateReview(review.id, { is_flagged: !review.is_flagged })}
+                  >
+                    <Flag className={`h-4 w-4 ${review.is_flagged ? 'fill-current text-destructive' : ''}`} />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title={review.is_hidden ? 'Show to students' : 'Hide from students'}
+                    onClick={() => moderateReview(review.id, { is_hidden: !review.is_hidden })}
+                  >
+                    {review.is_hidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-4">
+            {filter === 'all' ? 'No reviews yet.' : `No ${filter} reviews.`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MenuReviewsPanel;
@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { toVocabularyId, useMenuVocabulary, type MenuCategory } from '@/hooks/useMenuVocabulary';
+import { Plus, Tags, X } from 'lucide-react';
+
+const MenuVocabularySettings = () => {
+  const [newCategory, setNewCategory] = useState({ label: '', is_main: false });
+  const [newTag, setNewTag] = useState({ label: '', is_preference: false });
+  const { toast } = useToast();
+  const { categories, dietaryTags, refetch } = useMenuVocabulary();
+
+  const createCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = toVocabularyId(newCategory.label);
+    if (!id) return;
+
+    try {
+      const { error } = await supabase
+        .from('menu_categories')
+        .insert([{
+          id,
+          label: newCategory.label.trim(),
+          sort_order: Math.max(0, ...categories.map(category => category.sort_order)) + 1,
+          slot: newCategory.is_main ? 'main' : 'side'
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Category added successfully"
+      });
+      setNewCategory({ label: '', is_main: false });
+      refetch();
+    } catch (error) {
+      console.error('Error creating category:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to add category. It may already exist."
+      });
+    }
+  };
+
+  // The recommender pairs one main course with one side, so it needs to know which is which
+  const toggleMainCourse = async (category: MenuCategory) => {
+    try {
+      const { error } = await supabase
+        .from('menu_categories')
+        .update({ slot: category.slot === 'main' ? 'side' : 'main' })
+        .eq('id', category.id);
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      console.error('Error updating category:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update category"
+      });
+    }
+  };
+
+  const deleteCategory = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('menu_categories')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete category. Dishes may still be filed under it."
+      });
+    }
+  };
+
+  const createTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = toVocabularyId(newTag.label);
+    if (!id) return;
+
+    try {
+      const { error } = await supabase
+        .from('dietary_tags')
+        .insert([{ id, label: newTag.label.trim(), is_preference: newTag.is_preference }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Dietary tag added successfully"
+      });
+      setNewTag({ label: '', is_preference: false });
+      refetch();
+    } catch (error) {
+      console.error('Error creating dietary tag:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to add dietary tag. It may already exist."
+      });
+    }
+  };
+
+  const togglePreference = async (id: string, isPreference: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('dietary_tags')
+        .update({ is_preference: !isPreference })
+        .eq('id', id);
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      console.error('Error updating dietary tag:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update dietary tag"
+      });
+    }
+  };
+
+  // Deleting a tag also takes it off every dish and profile that used it
+  const deleteTag = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('dietary_tags')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      refetch();
+    } catch (error) {
+      console.error('Error deleting dietary tag:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete dietary tag"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Tags className="h-5 w-5" />
+          <span>Menu Vocabulary</span>
+        </CardTitle>
+        <CardDescription>
+          The categories and dietary tags cafeteria admins file dishes under and students set preferences from
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Categories</Label>
+          <form onSubmit={createCategory} className="flex flex-wrap items-center gap-2">
+            <Input
+              className="flex-1 min-w-48"
+              value={newCategory.label}
+              onChange={(e) => setNewCategory({ ...newCategory, label: e.target.value })}
+              placeholder="e.g. Soup"
+              required
+            />
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="new-category-main"
+                checked={newCategory.is_main}
+                onCheckedChange={(checked) => setNewCategory({ ...newCategory, is_main: checked })}
+              />
+              <Label htmlFor="new-category-main" className="font-normal">Main course</Label>
+            </div>
+            <Button type="submit" className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </Button>
+          </form>
+          <div className="space-y-2">
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center justify-between p-2 border rounded-lg">
+                <div>
+                  <span className="font-medium">{category.label}</span>
+                  <span className="text-sm text-muted-foreground ml-2">{category.id}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor={`category-main-${category.id}`} className="text-sm text-muted-foreground">
+                    {category.slot === 'main' ? 'Main course' : 'Side'}
+                  </Label>
+                  <Switch
+                    id={`category-main-${category.id}`}
+                    checked={category.slot === 'main'}
+                    onCheckedChange={() => toggleMainCourse(category)}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => deleteCategory(category.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Dietary Tags</Label>
+          <form onSubmit={createTag} className="flex flex-wrap items-center gap-2">
+            <Input
+              className="flex-1 min-w-48"
+              value={newTag.label}
+              onChange={(e) => setNewTag({ ...newTag, label: e.target.value })}
+              placeholder="e.g. Pescatarian"
+              required
+            />
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="new-tag-preference"
+                checked={newTag.is_preference}
+                onCheckedChange={(checked) => setNewTag({ ...newTag, is_preference: checked })}
+              />
+              <Label htmlFor="new-tag-preference" className="font-normal">Student preference</Label>
+            </div>
+            <Button type="submit" className="flex items-center space-x-2">
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </Button>
+          </form>
+          <div className="space-y-2">
+            {dietaryTags.map((tag) => (
+              <div key={tag.id} className="flex items-center justify-between p-2 border rounded-lg">
+                <div>
+                  <span className="font-medium">{tag.label}</span>
+                  <span className="text-sm text-muted-foreground ml-2">{tag.id}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor={`tag-preference-${tag.id}`} className="text-sm text-muted-foreground">
+                    {tag.is_preference ? 'Student preference' : 'Dish tag only'}
+                  </Label>
+                  <Switch
+                    id={`tag-preference-${tag.id}`}
+                    checked={tag.is_preference}
+                    onCheckedChange={() => togglePreference(tag.id, tag.is_preference)}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => deleteTag(tag.id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MenuVocabularySettings;
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/components/ui/use-toast';
+import { format, parseISO } from 'date-fns';
+import { getCampusDate } from '@/lib/dates';
+import ReviewDialog, { type Review } from '@/components/ReviewDialog';
+import StarRating from '@/components/StarRating';
+import { Receipt } from 'lucide-react';
+
+interface OrderLine {
+  id: string;
+  amount: number;
+  quantity: number;
+  menu_items: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+interface Order {
+  id: string;
+  total_amount: number;
+  status: string;
+  pickup_time: string | null;
+  service_date: string;
+  created_at: string;
+  transactions: OrderLine[];
+}
+
+const getStatusBadgeVariant = (status: string) => {
+  switch (status) {
+    case 'cancelled':
+      return 'destructive';
+    case 'completed':
+      return 'secondary';
+    default:
+      return 'default';
+  }
+};
+
+// Matches the reviews insert policy: a dish can be rated once it has been picked up or its day has come
+const canRateOrder = (order: Order) =>
+  order.status === 'completed' || order.service_date <= getCampusDate();
+
+const OrderHistory = ({ limit = 10 }: { limit?: number }) => {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviews, setReviews] = useState<Record<string, Review>>({});
+  const [reviewingDish, setReviewingDish] = useState<{ id: string; name: string } | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchOrders();
+      fetchReviews();
+    }
+  }, [user]);
+
+  const fetchOrders = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('orders')
+        .select(`
+          id,
+          total_amount,
+          status,
+          pickup_time,
+          service_date,
+          created_at,
+          transactions (
+            id,
+            amount,
+            quantity,
+            menu_items (
+              id,
+              name
+            )
+          )
+        `)
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setOrders(data || []);
+    } catch (error) {
+      console.error('Error fetching orders:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch order history",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchReviews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('menu_item_reviews')
+        .select('id, menu_item_id, rating, comment, is_hidden')
+        .eq('user_id', user!.id);
+
+      if (error) throw error;
+      setReviews(Object.fromEntries((data || []).map(review => [review.menu_item_id, review])));
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Receipt className="h-5 w-5" />
+          <span>Order History</span>
+        </CardTitle>
+        <CardDescription>Your most recent orders and what was in them</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Loading orders...</p>
+        ) : orders.length > 0 ? (
+          <div className="space-y-3">
+            {orders.map((order) => (
+              <div key={order.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">
+                      Order #{order.id.slice(0, 8)}
+                      {order.service_date !== getCampusDate(order.created_at) && (
+                        <span className="text-muted-foreground font-normal">
+                          {' · '}Pre-order for {format(parseISO(order.service_date), 'EEE, MMM dd')}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(order.created_at), 'MMM dd, yyyy h:mm a')}
+                      {order.pickup_time && ` · Pickup ${format(new Date(order.pickup_time), 'h:mm a')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Badge variant={getStatusBadgeVariant(order.status)} className="capitalize">
+                      {order.status}
+                    </Badge>
+                    <span className="font-bold">${Number(order.total_amount).toFixed(2)}</span>
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {order.transactions.map((line) => (
+                    <div key={line.id} className="flex items-center justify-between text-sm text-muted-foreground">
+                      <span>{line.quantity} × {line.menu_items?.name || 'Unknown item'}</span>
+                      <div className="flex items-center space-x-2">
+                        {line.menu_items && (
+                          reviews[line.menu_items.id] ? (
+                            <button
+                              type="button"
+                              title="Edit your review"
+                              onClick={() => setReviewingDish(line.menu_items)}
+                            >
+                              <StarRating value={reviews[line.menu_items.id].rating} />
+                            </button>
+                          ) : canRateOrder(order) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2"
+                              onClick={() => setReviewingDish(line.menu_items)}
+                            >
+                              Rate
+                            </Button>
+                          )
+                        )}
+                        <span>${Number(line.amount).toFixed(2)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground py-4">
+            No orders yet. Check out from the menu to see your receipts here.
+          </p>
+        )}
+      </CardContent>
+      <ReviewDialog
+        dish={reviewingDish}
+        review={reviewingDish ? reviews[reviewingDish.id] ?? null : null}
+        onOpenChange={(open) => !open && setReviewingDish(null)}
+        onSaved={fetchReviews}
+      />
+    </Card>
+  );
+};
+
+export default OrderHistory;
@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/components/ui/use-toast';
+import StarRating from '@/components/StarRating';
+
+// Matches the length check on menu_item_reviews.comment
+const MAX_REVIEW_LENGTH = 500;
+
+export interface Review {
+  id: string;
+  menu_item_id: string;
+  rating: number;
+  comment: string | null;
+  is_hidden: boolean;
+}
+
+interface ReviewDialogProps {
+  dish: { id: string; name: string } | null;
+  // The student's existing review of the dish, if they've left one
+  review: Review | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const ReviewDialog = ({ dish, review, onOpenChange, onSaved }: ReviewDialogProps) => {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    setRating(review?.rating ?? 0);
+    setComment(review?.comment ?? '');
+  }, [dish, review]);
+
+  const saveReview = async () => {
+    if (!dish || !user || rating === 0) return;
+
+    setSaving(true);
+    try {
+      const reviewData = { rating, comment: comment.trim() || null };
+      const { error } = review
+        ? await supabase
+            .from('menu_item_reviews')
+            .update(reviewData)
+            .eq('id', review.id)
+        : await supabase
+            .from('menu_item_reviews')
+            .insert([{ ...reviewData, menu_item_id: dish.id, user_id: user.id }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Thanks for your review",
+        description: `Your rating of ${dish.name} has been saved`
+      });
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save review",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteReview = async () => {
+    if (!review) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('menu_item_reviews')
+        .delete()
+        .eq('id', review.id);
+
+      if (error) throw error;
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error deleting review:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete review",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!dish} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{review ? 'Edit your review' : 'Rate this dish'}</DialogTitle>
+          <DialogDescription>{dish?.name}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <StarRating value={rating} onChange={setRating} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comment (optional)</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              maxLength={MAX_REVIEW_LENGTH}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="What did you think?"
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {comment.length}/{MAX_REVIEW_LENGTH}
+            </p>
+          </div>
+          {review?.is_hidden && (
+            <p className="text-sm text-muted-foreground">
+              This review has been hidden by the cafeteria and isn't shown to other students.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          {review && (
+            <Button variant="outline" onClick={deleteReview} disabled={saving}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={saveReview} disabled={saving || rating === 0}>
+            {review ? 'Update Review' : 'Submit Review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReviewDialog;
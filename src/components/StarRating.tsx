@@ -0,0 +1,39 @@
+import { cn } from '@/lib/utils';
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  value: number;
+  // Omit to render a read-only rating
+  onChange?: (value: number) => void;
+  className?: string;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+const StarRating = ({ value, onChange, className }: StarRatingProps) => (
+  <div className={cn('flex items-center', className)}>
+    {STARS.map((star) => {
+      // Read-only averages round to the nearest whole star
+      const filled = star <= Math.round(value);
+      const icon = (
+        <Star className={cn('h-4 w-4', filled ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground')} />
+      );
+
+      return onChange ? (
+        <button
+          key={star}
+          type="button"
+          title={`${star} star${star === 1 ? '' : 's'}`}
+          className="p-0.5"
+          onClick={() => onChange(star)}
+        >
+          {icon}
+        </button>
+      ) : (
+        <span key={star}>{icon}</span>
+      );
+    })}
+  </div>
+);
+
+export default StarRating;
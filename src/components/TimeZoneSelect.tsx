@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getSupportedTimeZones } from '@/lib/dates';
+
+interface TimeZoneSelectProps {
+  id?: string;
+  value: string;
+  onValueChange: (timeZone: string) => void;
+}
+
+// Free-text zones broke date formatting on the menu, so admins pick from the names the browser knows
+const TimeZoneSelect = ({ id, value, onValueChange }: TimeZoneSelectProps) => {
+  const timeZones = Array.from(new Set([value, ...getSupportedTimeZones()]));
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a time zone" />
+      </SelectTrigger>
+      <SelectContent>
+        {timeZones.map((timeZone) => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TimeZoneSelect;
@@ -0,0 +1,689 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { WEEK_DAYS } from '@/lib/budget';
+import { addCalendarDays, getCalendarWeekday, getCampusDate } from '@/lib/dates';
+import { getPortionsLeft, isLowStock } from '@/lib/stock';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Copy, Edit, Eye, EyeOff, Plus, Repeat, X } from 'lucide-react';
+
+interface Dish {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface PlannedOffering {
+  id: string;
+  menu_item_id: string;
+  offered_on: string;
+  price_override: number | null;
+  portion_count: number | null;
+  portions_sold: number;
+  is_sold_out: boolean;
+  is_available: boolean;
+  recurring_item_id: string | null;
+  menu_items: Dish;
+}
+
+interface RecurringItem {
+  id: string;
+  menu_item_id: string;
+  weekday: number;
+  starts_on: string;
+  ends_on: string | null;
+  menu_items: Dish;
+}
+
+interface WeeklyMenuPlannerProps {
+  cafeteriaId: string;
+  timeZone?: string;
+  dishes: Dish[];
+  refreshToken?: number;
+}
+
+const EMPTY_OFFERING = { menu_item_id: '', price_override: '', portion_count: '' };
+
+const parsePrice = (value: string) => (value ? parseFloat(value) : null);
+const parsePortions = (value: string) => (value ? parseInt(value, 10) : null);
+
+// Planner weeks run Monday through Sunday
+const getWeekStart = (date: string) => addCalendarDays(date, -((getCalendarWeekday(date) + 6) % 7));
+
+const WeeklyMenuPlanner = ({ cafeteriaId, timeZone, dishes, refreshToken = 0 }: WeeklyMenuPlannerProps) => {
+  const today = getCampusDate(new Date(), timeZone);
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(today));
+  const [offerings, setOfferings] = useState<PlannedOffering[]>([]);
+  const [recurringItems, setRecurringItems] = useState<RecurringItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+  const [schedulingDate, setSchedulingDate] = useState<string | null>(null);
+  const [newOffering, setNewOffering] = useState(EMPTY_OFFERING);
+  // Bumped when an offering is scheduled into the visible week, here or elsewhere
+  const [weekChangedAt, setWeekChangedAt] = useState(0);
+  const [editingOffering, setEditingOffering] = useState<PlannedOffering | null>(null);
+  const [offeringEdits, setOfferingEdits] = useState({ price_override: '', portion_count: '' });
+  const { toast } = useToast();
+
+  const weekDates = Array.from({ length: 7 }, (_, i) => addCalendarDays(weekStart, i));
+
+  useEffect(() => {
+    fetchWeek();
+  }, [cafeteriaId, weekStart, refreshToken, weekChangedAt]);
+
+  // Every sale moves the stock column, so follow the week's offerings as they change
+  useEffect(() => {
+    const weekEnd = addCalendarDays(weekStart, 6);
+    const isInWeek = (offering: Tables<'menu_offerings'>) =>
+      offering.offered_on >= weekStart && offering.offered_on <= weekEnd;
+
+    const channel = supabase
+      .channel(`planner-${cafeteriaId}-${weekStart}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'menu_offerings', filter: `cafeteria_id=eq.${cafeteriaId}` },
+        (payload) => {
+          const changed = payload.new as Tables<'menu_offerings'>;
+          if (!isInWeek(changed)) return;
+
+          setOfferings(current => current.map(offering =>
+            offering.id === changed.id
+              ? {
+                  ...offering,
+                  price_override: changed.price_override,
+                  portion_count: changed.portion_count,
+                  portions_sold: changed.portions_sold,
+                  is_sold_out: changed.is_sold_out,
+                  is_available: changed.is_available,
+                  recurring_item_id: changed.recurring_item_id
+                }
+              : offering
+          ));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'menu_offerings', filter: `cafeteria_id=eq.${cafeteriaId}` },
+        (payload) => {
+          // Inserted rows lack the joined dish, so reload the week to show them
+          if (isInWeek(payload.new as Tables<'menu_offerings'>)) setWeekChangedAt(Date.now());
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'menu_offerings' },
+        (payload) => {
+          const removedId = (payload.old as Partial<Tables<'menu_offerings'>>).id;
+          setOfferings(current => current.filter(offering => offering.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [cafeteriaId, weekStart]);
+
+  const fetchWeek = async () => {
+    try {
+      // Make sure recurring items have their offerings before showing the week
+      const { error: generateError } = await supabase.rpc('generate_recurring_menu_items', {
+        cafeteria_uuid: cafeteriaId,
+        from_date: weekStart,
+        to_date: addCalendarDays(weekStart, 6)
+      });
+      if (generateError) throw generateError;
+
+      const [{ data: weekOfferings, error: offeringsError }, { data: recurring, error: recurringError }] = await Promise.all([
+        supabase
+          .from('menu_offerings')
+          .select(`
+            id,
+            menu_item_id,
+            offered_on,
+            price_override,
+            portion_count,
+            portions_sold,
+            is_sold_out,
+            is_available,
+            recurring_item_id,
+            menu_items!inner (
+              id,
+              name,
+              price
+            )
+          `)
+          .eq('menu_items.cafeteria_id', cafeteriaId)
+          .gte('offered_on', weekStart)
+          .lte('offered_on', addCalendarDays(weekStart, 6)),
+        supabase
+          .from('recurring_menu_items')
+          .select(`
+            id,
+            menu_item_id,
+            weekday,
+            starts_on,
+            ends_on,
+            menu_items (
+              id,
+              name,
+              price
+            )
+          `)
+          .eq('cafeteria_id', cafeteriaId)
+          .order('weekday', { ascending: true })
+      ]);
+
+      if (offeringsError) throw offeringsError;
+      if (recurringError) throw recurringError;
+
+      setOfferings(
+        (weekOfferings || []).sort((a, b) => a.menu_items.name.localeCompare(b.menu_items.name))
+      );
+      setRecurringItems(recurring || []);
+    } catch (error) {
+      console.error('Error fetching weekly menu:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load the weekly menu"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyLastWeek = async () => {
+    setCopying(true);
+    try {
+      const { data: created, error } = await supabase.rpc('copy_menu_week', {
+        cafeteria_uuid: cafeteriaId,
+        source_start: addCalendarDays(weekStart, -7),
+        target_start: weekStart
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Week copied",
+        description: created
+          ? `Added ${created} item${created === 1 ? '' : 's'} from last week`
+          : 'This week already has everything from last week'
+      });
+
+      fetchWeek();
+    } catch (error) {
+      console.error('Error copying last week:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to copy last week's menu"
+      });
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const startScheduling = (date: string) => {
+    setEditingOffering(null);
+    setSchedulingDate(date);
+    setNewOffering(EMPTY_OFFERING);
+  };
+
+  const scheduleOffering = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!schedulingDate || !newOffering.menu_item_id) return;
+
+    try {
+      const { error } = await supabase
+        .from('menu_offerings')
+        .insert([{
+          menu_item_id: newOffering.menu_item_id,
+          offered_on: schedulingDate,
+          price_override: parsePrice(newOffering.price_override),
+          portion_count: parsePortions(newOffering.portion_count)
+        }]);
+
+      if (error) throw error;
+
+      setSchedulingDate(null);
+      fetchWeek();
+    } catch (error) {
+      console.error('Error scheduling menu item:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to schedule menu item"
+      });
+    }
+  };
+
+  const startEditing = (offering: PlannedOffering) => {
+    setSchedulingDate(null);
+    setEditingOffering(offering);
+    setOfferingEdits({
+      price_override: offering.price_override?.toString() ?? '',
+      portion_count: offering.portion_count?.toString() ?? ''
+    });
+  };
+
+  const updateOffering = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingOffering) return;
+
+    try {
+      const { error } = await supabase
+        .from('menu_offerings')
+        .update({
+          price_override: parsePrice(offeringEdits.price_override),
+          portion_count: parsePortions(offeringEdits.portion_count)
+        })
+        .eq('id', editingOffering.id);
+
+      if (error) throw error;
+
+      setEditingOffering(null);
+      fetchWeek();
+    } catch (error) {
+      console.error('Error updating offering:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update portions and price"
+      });
+    }
+  };
+
+  const toggleOfferingAvailability = async (offering: PlannedOffering) => {
+    try {
+      const { error } = await supabase
+        .from('menu_offerings')
+        .update({ is_available: !offering.is_available })
+        .eq('id', offering.id);
+
+      if (error) throw error;
+      fetchWeek();
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update availability"
+      });
+    }
+  };
+
+  const removeOffering = async (offering: PlannedOffering) => {
+    try {
+      const { error } = await supabase
+        .from('menu_offerings')
+        .delete()
+        .eq('id', offering.id);
+
+      if (error) throw error;
+      fetchWeek();
+    } catch (error) {
+      console.error('Error removing menu item from day:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove menu item from this day"
+      });
+    }
+  };
+
+  const repeatWeekly = async (offering: PlannedOffering) => {
+    try {
+      const { data: recurring, error } = await supabase
+        .from('recurring_menu_items')
+        .insert([{
+          cafeteria_id: cafeteriaId,
+          menu_item_id: offering.menu_item_id,
+          weekday: getCalendarWeekday(offering.offered_on),
+          starts_on: offering.offered_on,
+          price_override: offering.price_override,
+          portion_count: offering.portion_count
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // The existing offering becomes the recurrence's first occurrence
+      const { error: linkError } = await supabase
+        .from('menu_offerings')
+        .update({ recurring_item_id: recurring.id })
+        .eq('id', offering.id);
+
+      if (linkError) throw linkError;
+
+      toast({
+        title: "Success",
+        description: `${offering.menu_items.name} will be served every ${WEEK_DAYS[recurring.weekday]}`
+      });
+
+      fetchWeek();
+    } catch (error) {
+      console.error('Error creating recurring item:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to make item recurring"
+      });
+    }
+  };
+
+  const stopRecurring = async (recurring: RecurringItem) => {
+    try {
+      // Drop upcoming occurrences; past and today's rows stay for order history
+      const { error: deleteOfferingsError } = await supabase
+        .from('menu_offerings')
+        .delete()
+        .eq('recurring_item_id', recurring.id)
+        .gt('offered_on', today);
+
+      if (deleteOfferingsError) throw deleteOfferingsError;
+
+      const { error } = await supabase
+        .from('recurring_menu_items')
+        .delete()
+        .eq('id', recurring.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${recurring.menu_items.name} no longer repeats`
+      });
+
+      fetchWeek();
+    } catch (error) {
+      console.error('Error stopping recurring item:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to stop recurring item"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <CalendarDays className="h-5 w-5" />
+              <span>Weekly Planner</span>
+            </CardTitle>
+            <CardDescription>
+              Week of {format(parseISO(weekStart), 'MMM d, yyyy')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addCalendarDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(today))}>
+              This Week
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setWeekStart(addCalendarDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              onClick={copyLastWeek}
+              disabled={copying || addCalendarDays(weekStart, 6) < today}
+              className="flex items-center space-x-2"
+            >
+              <Copy className="h-4 w-4" />
+              <span>{copying ? 'Copying...' : 'Copy Last Week'}</span>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Loading week...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-3">
+            {weekDates.map((date) => {
+              const dayOfferings = offerings.filter(offering => offering.offered_on === date);
+              const isPast = date < today;
+
+              return (
+                <div
+                  key={date}
+                  className={`border rounded-lg p-2 space-y-2 ${date === today ? 'border-primary' : ''} ${isPast ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-semibold">{format(parseISO(date), 'EEE')}</p>
+                      <p className="text-xs text-muted-foreground">{format(parseISO(date), 'MMM d')}</p>
+                    </div>
+                    {!isPast && (
+                      <Button variant="ghost" size="sm" onClick={() => startScheduling(date)}>
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {dayOfferings.length > 0 ? (
+                    dayOfferings.map((offering) => (
+                      <div key={offering.id} className="text-xs p-2 rounded bg-muted space-y-1">
+                        <span
+                          className={`font-medium block ${offering.is_available ? '' : 'line-through text-muted-foreground'}`}
+                        >
+                          {offering.menu_items.name}
+                        </span>
+                        <span className="text-muted-foreground block">
+                          ${Number(offering.price_override ?? offering.menu_items.price).toFixed(2)}
+                        </span>
+                        {offering.portion_count !== null && (
+                          <span
+                            className={`block ${offering.is_sold_out ? 'text-destructive font-medium' : isLowStock(offering) ? 'font-medium' : 'text-muted-foreground'}`}
+                          >
+                            {offering.is_sold_out
+                              ? 'Sold out'
+                              : `${getPortionsLeft(offering)} of ${offering.portion_count} left`}
+                          </span>
+                        )}
+                        {!isPast && (
+                          <div className="flex items-center space-x-2 text-muted-foreground">
+                            {offering.recurring_item_id ? (
+                              <Repeat className="h-3 w-3 text-primary" />
+                            ) : (
+                              <button
+                                type="button"
+                                title="Repeat weekly"
+                                className="hover:text-primary"
+                                onClick={() => repeatWeekly(offering)}
+                              >
+                                <Repeat className="h-3 w-3" />
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              title="Edit portions and price"
+                              className="hover:text-primary"
+                              onClick={() => startEditing(offering)}
+                            >
+                              <Edit className="h-3 w-3" />
+                            </button>
+                            <button
+                              type="button"
+                              title={offering.is_available ? 'Mark unavailable' : 'Mark available'}
+                              className="hover:text-primary"
+                              onClick={() => toggleOfferingAvailability(offering)}
+                            >
+                              {offering.is_available ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                            </button>
+                            {/* Recurring offerings are regenerated, so they are hidden rather than removed */}
+                            {!offering.recurring_item_id && (
+                              <button
+                                type="button"
+                                title="Remove from this day"
+                                className="hover:text-destructive"
+                                onClick={() => removeOffering(offering)}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-xs text-muted-foreground">Nothing planned</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {schedulingDate && (
+          <form onSubmit={scheduleOffering} className="p-4 border rounded-lg space-y-4">
+            <h3 className="text-sm font-semibold">
+              Schedule for {format(parseISO(schedulingDate), 'EEEE, MMM d')}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Dish</Label>
+                <Select
+                  value={newOffering.menu_item_id}
+                  onValueChange={(value) => setNewOffering({ ...newOffering, menu_item_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose from the catalog" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dishes.map((dish) => (
+                      <SelectItem key={dish.id} value={dish.id}>
+                        {dish.name} (${Number(dish.price).toFixed(2)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="price_override">Price Override ($)</Label>
+                <Input
+                  id="price_override"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={newOffering.price_override}
+                  onChange={(e) => setNewOffering({ ...newOffering, price_override: e.target.value })}
+                  placeholder="Catalog price"
+                />
+              </div>
+              <div>
+                <Label htmlFor="portion_count">Portions</Label>
+                <Input
+                  id="portion_count"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={newOffering.portion_count}
+                  onChange={(e) => setNewOffering({ ...newOffering, portion_count: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit" disabled={!newOffering.menu_item_id}>
+                Add to Day
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setSchedulingDate(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {editingOffering && (
+          <form onSubmit={updateOffering} className="p-4 border rounded-lg space-y-4">
+            <h3 className="text-sm font-semibold">
+              {editingOffering.menu_items.name} on {format(parseISO(editingOffering.offered_on), 'EEEE, MMM d')}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="edit_price_override">Price Override ($)</Label>
+                <Input
+                  id="edit_price_override"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={offeringEdits.price_override}
+                  onChange={(e) => setOfferingEdits({ ...offeringEdits, price_override: e.target.value })}
+                  placeholder={`Catalog price ($${Number(editingOffering.menu_items.price).toFixed(2)})`}
+                />
+              </div>
+              <div>
+                <Label htmlFor="edit_portion_count">Portions</Label>
+                <Input
+                  id="edit_portion_count"
+                  type="number"
+                  step="1"
+                  min={editingOffering.portions_sold}
+                  value={offeringEdits.portion_count}
+                  onChange={(e) => setOfferingEdits({ ...offeringEdits, portion_count: e.target.value })}
+                  placeholder="Unlimited"
+                />
+                {editingOffering.portions_sold > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {editingOffering.portions_sold} already sold
+                  </p>
+                )}
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <Button type="submit">Save</Button>
+              <Button type="button" variant="outline" onClick={() => setEditingOffering(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Recurring Items</h3>
+          {recurringItems.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {recurringItems.map((recurring) => (
+                <Badge key={recurring.id} variant="outline" className="flex items-center space-x-1 py-1">
+                  <Repeat className="h-3 w-3" />
+                  <span>
+                    {recurring.menu_items.name} every {WEEK_DAYS[recurring.weekday]}
+                    {recurring.ends_on && ` until ${format(parseISO(recurring.ends_on), 'MMM d')}`}
+                  </span>
+                  <button
+                    type="button"
+                    title="Stop repeating"
+                    className="hover:text-destructive"
+                    onClick={() => stopRecurring(recurring)}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Use the repeat icon on a scheduled dish to serve it on the same weekday every week.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeeklyMenuPlanner;
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface Cafeteria {
+  id: string;
+  name: string;
+  location: string | null;
+  time_zone: string;
+  is_active: boolean;
+}
+
+export function useCafeterias({ managedOnly = false }: { managedOnly?: boolean } = {}) {
+  const [cafeterias, setCafeterias] = useState<Cafeteria[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user, userRole } = useAuth();
+
+  useEffect(() => {
+    fetchCafeterias();
+  }, [user, userRole, managedOnly]);
+
+  const fetchCafeterias = async () => {
+    try {
+      let query = supabase
+        .from('cafeterias')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (!managedOnly) {
+        query = query.eq('is_active', true);
+      } else if (userRole !== 'system_admin') {
+        // Cafeteria admins only see the halls their roles are scoped to
+        const { data: roles, error: rolesError } = await supabase
+          .from('user_roles')
+          .select('cafeteria_id')
+          .eq('user_id', user?.id)
+          .eq('role', 'cafeteria_admin');
+
+        if (rolesError) throw rolesError;
+        query = query.in('id', (roles || []).map(role => role.cafeteria_id).filter(Boolean));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setCafeterias(data || []);
+    } catch (error) {
+      console.error('Error fetching cafeterias:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { cafeterias, loading, refetch: fetchCafeterias };
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+
+export interface CartableItem {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface CartLine<T extends CartableItem> {
+  item: T;
+  quantity: number;
+}
+
+export function useCart<T extends CartableItem>() {
+  const [lines, setLines] = useState<CartLine<T>[]>([]);
+
+  const addItem = (item: T, quantity = 1) => {
+    setLines(prev => {
+      const existing = prev.find(line => line.item.id === item.id);
+      if (existing) {
+        return prev.map(line =>
+          line.item.id === item.id ? { ...line, quantity: line.quantity + quantity } : line
+        );
+      }
+      return [...prev, { item, quantity }];
+    });
+  };
+
+  const updateQuantity = (itemId: string, quantity: number) => {
+    setLines(prev =>
+      quantity <= 0
+        ? prev.filter(line => line.item.id !== itemId)
+        : prev.map(line => (line.item.id === itemId ? { ...line, quantity } : line))
+    );
+  };
+
+  const removeItem = (itemId: string) => {
+    setLines(prev => prev.filter(line => line.item.id !== itemId));
+  };
+
+  // Swap in fresh details (e.g. a new price) for an item already in the cart
+  const replaceItem = (item: T) => {
+    setLines(prev => prev.map(line => (line.item.id === item.id ? { ...line, item } : line)));
+  };
+
+  const clearCart = () => setLines([]);
+
+  const total = lines.reduce((sum, line) => sum + line.item.price * line.quantity, 0);
+  const itemCount = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  return { lines, total, itemCount, addItem, updateQuantity, removeItem, replaceItem, clearCart };
+}
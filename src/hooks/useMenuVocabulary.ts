@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { MealSlot } from '@/lib/recommendations';
+
+export interface MenuCategory {
+  id: string;
+  label: string;
+  sort_order: number;
+  slot: MealSlot;
+}
+
+export interface DietaryTag {
+  id: string;
+  label: string;
+  is_preference: boolean;
+}
+
+// Ids are lowercase slugs, matching public.to_vocabulary_id on the database side
+export const toVocabularyId = (term: string) =>
+  term.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export function useMenuVocabulary() {
+  const [categories, setCategories] = useState<MenuCategory[]>([]);
+  const [dietaryTags, setDietaryTags] = useState<DietaryTag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchVocabulary();
+  }, []);
+
+  const fetchVocabulary = async () => {
+    try {
+      const [{ data: categoryRows, error: categoriesError }, { data: tagRows, error: tagsError }] = await Promise.all([
+        supabase
+          .from('menu_categories')
+          .select('id, label, sort_order, slot')
+          .order('sort_order', { ascending: true })
+          .order('label', { ascending: true }),
+        supabase
+          .from('dietary_tags')
+          .select('id, label, is_preference')
+          .order('label', { ascending: true })
+      ]);
+
+      if (categoriesError) throw categoriesError;
+      if (tagsError) throw tagsError;
+      setCategories((categoryRows || []) as MenuCategory[]);
+      setDietaryTags(tagRows || []);
+    } catch (error) {
+      console.error('Error fetching menu vocabulary:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getCategoryLabel = (id: string) =>
+    categories.find(category => category.id === id)?.label ?? id;
+
+  const getTagLabel = (id: string) =>
+    dietaryTags.find(tag => tag.id === id)?.label ?? id;
+
+  return { categories, dietaryTags, loading, getCategoryLabel, getTagLabel, refetch: fetchVocabulary };
+}
@@ -14,36 +14,208 @@ export type Database = {
   }
   public: {
     Tables: {
+      budget_period_history: {
+        Row: {
+          allowance: number
+          budget_id: string
+          carry_in: number
+          carry_out: number
+          created_at: string
+          id: string
+          period_end: string
+          period_start: string
+          spent: number
+          user_id: string
+        }
+        Insert: {
+          allowance: number
+          budget_id: string
+          carry_in?: number
+          carry_out?: number
+          created_at?: string
+          id?: string
+          period_end: string
+          period_start: string
+          spent?: number
+          user_id: string
+        }
+        Update: {
+          allowance?: number
+          budget_id?: string
+          carry_in?: number
+          carry_out?: number
+          created_at?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          spent?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budget_period_history_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       budgets: {
         Row: {
           amount: number
           budget_type: string
           created_at: string
+          enforcement_mode: string
           id: string
           is_active: boolean
+          period_end: string | null
+          period_start: string | null
+          rollover_cap: number | null
+          rollover_policy: string
           updated_at: string
           user_id: string
+          week_start_day: number
         }
         Insert: {
           amount: number
           budget_type: string
           created_at?: string
+          enforcement_mode?: string
           id?: string
           is_active?: boolean
+          period_end?: string | null
+          period_start?: string | null
+          rollover_cap?: number | null
+          rollover_policy?: string
           updated_at?: string
           user_id: string
+          week_start_day?: number
         }
         Update: {
           amount?: number
           budget_type?: string
           created_at?: string
+          enforcement_mode?: string
           id?: string
           is_active?: boolean
+          period_end?: string | null
+          period_start?: string | null
+          rollover_cap?: number | null
+          rollover_policy?: string
           updated_at?: string
           user_id?: string
+          week_start_day?: number
+        }
+        Relationships: []
+      }
+      cafeterias: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          location: string | null
+          name: string
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name: string
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location?: string | null
+          name?: string
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      campus_settings: {
+        Row: {
+          id: boolean
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dietary_tags: {
+        Row: {
+          created_at: string
+          id: string
+          is_preference: boolean
+          label: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          is_preference?: boolean
+          label: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_preference?: boolean
+          label?: string
         }
         Relationships: []
       }
+      meal_periods: {
+        Row: {
+          cafeteria_id: string
+          created_at: string
+          ends_at: string
+          id: string
+          name: string
+          starts_at: string
+          updated_at: string
+        }
+        Insert: {
+          cafeteria_id: string
+          created_at?: string
+          ends_at: string
+          id?: string
+          name: string
+          starts_at: string
+          updated_at?: string
+        }
+        Update: {
+          cafeteria_id?: string
+          created_at?: string
+          ends_at?: string
+          id?: string
+          name?: string
+          starts_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_periods_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meal_recommendations: {
         Row: {
           created_at: string
@@ -52,6 +224,7 @@ export type Database = {
           reason: string | null
           recommended_date: string
           total_estimated_cost: number | null
+          updated_at: string
           user_id: string
         }
         Insert: {
@@ -61,6 +234,7 @@ export type Database = {
           reason?: string | null
           recommended_date?: string
           total_estimated_cost?: number | null
+          updated_at?: string
           user_id: string
         }
         Update: {
@@ -70,75 +244,420 @@ export type Database = {
           reason?: string | null
           recommended_date?: string
           total_estimated_cost?: number | null
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      menu_categories: {
+        Row: {
+          created_at: string
+          id: string
+          label: string
+          slot: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          label: string
+          slot?: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string
+          slot?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      menu_item_favorites: {
+        Row: {
+          created_at: string
+          menu_item_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          menu_item_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          menu_item_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_favorites_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_meal_periods: {
+        Row: {
+          meal_period_id: string
+          menu_item_id: string
+        }
+        Insert: {
+          meal_period_id: string
+          menu_item_id: string
+        }
+        Update: {
+          meal_period_id?: string
+          menu_item_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_meal_periods_meal_period_id_fkey"
+            columns: ["meal_period_id"]
+            isOneToOne: false
+            referencedRelation: "meal_periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_item_meal_periods_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_item_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          is_flagged: boolean
+          is_hidden: boolean
+          menu_item_id: string
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          is_flagged?: boolean
+          is_hidden?: boolean
+          menu_item_id: string
+          rating: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          is_flagged?: boolean
+          is_hidden?: boolean
+          menu_item_id?: string
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_item_reviews_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       menu_items: {
         Row: {
-          available_date: string
+          allergens: string[]
+          cafeteria_id: string
+          calories: number | null
           category: string
+          carbs_g: number | null
           created_at: string
           description: string | null
           dietary_tags: string[] | null
+          fat_g: number | null
           id: string
-          is_available: boolean
+          image_path: string | null
+          is_active: boolean
           name: string
           price: number
+          protein_g: number | null
+          sodium_mg: number | null
+          thumbnail_path: string | null
           updated_at: string
         }
         Insert: {
-          available_date?: string
+          allergens?: string[]
+          cafeteria_id: string
+          calories?: number | null
           category: string
+          carbs_g?: number | null
           created_at?: string
           description?: string | null
           dietary_tags?: string[] | null
+          fat_g?: number | null
           id?: string
-          is_available?: boolean
+          image_path?: string | null
+          is_active?: boolean
           name: string
           price: number
+          protein_g?: number | null
+          sodium_mg?: number | null
+          thumbnail_path?: string | null
           updated_at?: string
         }
         Update: {
-          available_date?: string
+          allergens?: string[]
+          cafeteria_id?: string
+          calories?: number | null
           category?: string
+          carbs_g?: number | null
           created_at?: string
           description?: string | null
           dietary_tags?: string[] | null
+          fat_g?: number | null
           id?: string
-          is_available?: boolean
+          image_path?: string | null
+          is_active?: boolean
           name?: string
           price?: number
+          protein_g?: number | null
+          sodium_mg?: number | null
+          thumbnail_path?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_items_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "menu_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_offerings: {
+        Row: {
+          cafeteria_id: string
+          created_at: string
+          id: string
+          is_available: boolean
+          is_sold_out: boolean
+          menu_item_id: string
+          offered_on: string
+          portion_count: number | null
+          portions_sold: number
+          price_override: number | null
+          recurring_item_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          cafeteria_id?: string
+          created_at?: string
+          id?: string
+          is_available?: boolean
+          menu_item_id: string
+          offered_on?: string
+          portion_count?: number | null
+          portions_sold?: number
+          price_override?: number | null
+          recurring_item_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cafeteria_id?: string
+          created_at?: string
+          id?: string
+          is_available?: boolean
+          menu_item_id?: string
+          offered_on?: string
+          portion_count?: number | null
+          portions_sold?: number
+          price_override?: number | null
+          recurring_item_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_offerings_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_offerings_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_offerings_recurring_item_id_fkey"
+            columns: ["recurring_item_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          created_at: string
+          id: string
+          pickup_time: string | null
+          service_date: string
+          status: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          pickup_time?: string | null
+          service_date?: string
+          status?: string
+          total_amount?: number
           updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          pickup_time?: string | null
+          service_date?: string
+          status?: string
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
       profiles: {
         Row: {
+          allergies: string[]
+          calorie_goal: number | null
+          carbs_goal_g: number | null
           created_at: string
+          default_cafeteria_id: string | null
           dietary_preferences: string[] | null
           display_name: string | null
+          fat_goal_g: number | null
           id: string
+          protein_goal_g: number | null
+          sodium_goal_mg: number | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          allergies?: string[]
+          calorie_goal?: number | null
+          carbs_goal_g?: number | null
           created_at?: string
+          default_cafeteria_id?: string | null
           dietary_preferences?: string[] | null
           display_name?: string | null
+          fat_goal_g?: number | null
           id?: string
+          protein_goal_g?: number | null
+          sodium_goal_mg?: number | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          allergies?: string[]
+          calorie_goal?: number | null
+          carbs_goal_g?: number | null
           created_at?: string
+          default_cafeteria_id?: string | null
           dietary_preferences?: string[] | null
           display_name?: string | null
+          fat_goal_g?: number | null
           id?: string
+          protein_goal_g?: number | null
+          sodium_goal_mg?: number | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_default_cafeteria_id_fkey"
+            columns: ["default_cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_menu_items: {
+        Row: {
+          cafeteria_id: string
+          created_at: string
+          ends_on: string | null
+          id: string
+          menu_item_id: string
+          portion_count: number | null
+          price_override: number | null
+          starts_on: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          cafeteria_id: string
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          menu_item_id: string
+          portion_count?: number | null
+          price_override?: number | null
+          starts_on?: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          cafeteria_id?: string
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          menu_item_id?: string
+          portion_count?: number | null
+          price_override?: number | null
+          starts_on?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_menu_items_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_menu_items_menu_item_id_fkey"
+            columns: ["menu_item_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       transactions: {
         Row: {
@@ -146,6 +665,8 @@ export type Database = {
           created_at: string
           id: string
           menu_item_id: string
+          offering_id: string | null
+          order_id: string | null
           quantity: number
           transaction_date: string
           user_id: string
@@ -155,6 +676,8 @@ export type Database = {
           created_at?: string
           id?: string
           menu_item_id: string
+          offering_id?: string | null
+          order_id?: string | null
           quantity?: number
           transaction_date?: string
           user_id: string
@@ -164,6 +687,8 @@ export type Database = {
           created_at?: string
           id?: string
           menu_item_id?: string
+          offering_id?: string | null
+          order_id?: string | null
           quantity?: number
           transaction_date?: string
           user_id?: string
@@ -176,10 +701,25 @@ export type Database = {
             referencedRelation: "menu_items"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_offering_id_fkey"
+            columns: ["offering_id"]
+            isOneToOne: false
+            referencedRelation: "menu_offerings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
         Row: {
+          cafeteria_id: string | null
           created_at: string
           id: string
           role: Database["public"]["Enums"]["app_role"]
@@ -187,6 +727,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          cafeteria_id?: string | null
           created_at?: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
@@ -194,19 +735,96 @@ export type Database = {
           user_id: string
         }
         Update: {
+          cafeteria_id?: string | null
           created_at?: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_cafeteria_id_fkey"
+            columns: ["cafeteria_id"]
+            isOneToOne: false
+            referencedRelation: "cafeterias"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      budget_period_allowance: {
+        Args: {
+          as_of?: string
+          budget: Database["public"]["Tables"]["budgets"]["Row"]
+        }
+        Returns: number
+      }
+      budget_period_end: {
+        Args: {
+          as_of?: string
+          budget: Database["public"]["Tables"]["budgets"]["Row"]
+        }
+        Returns: string
+      }
+      budget_period_local_start: {
+        Args: {
+          as_of?: string
+          budget: Database["public"]["Tables"]["budgets"]["Row"]
+        }
+        Returns: string
+      }
+      budget_period_spent: {
+        Args: {
+          as_of?: string
+          budget: Database["public"]["Tables"]["budgets"]["Row"]
+        }
+        Returns: number
+      }
+      budget_period_start: {
+        Args: {
+          as_of?: string
+          budget: Database["public"]["Tables"]["budgets"]["Row"]
+        }
+        Returns: string
+      }
+      campus_time_zone: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      campus_today: {
+        Args: { tz?: string }
+        Returns: string
+      }
+      checkout_cart: {
+        Args: { cart_items: Json; pickup_at?: string; service_date?: string }
+        Returns: {
+          created_at: string
+          id: string
+          pickup_time: string | null
+          service_date: string
+          status: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      copy_menu_week: {
+        Args: { cafeteria_uuid: string; source_start: string; target_start: string }
+        Returns: number
+      }
+      enforce_budget_limits: {
+        Args: { as_of?: string; buyer: string }
+        Returns: undefined
+      }
+      generate_recurring_menu_items: {
+        Args: { cafeteria_uuid: string; from_date: string; to_date: string }
+        Returns: number
+      }
       get_user_role: {
         Args: { user_uuid: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -218,6 +836,48 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_cafeteria_admin: {
+        Args: { cafeteria_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      menu_item_popularity: {
+        Args: { cafeteria_uuid: string; since?: string }
+        Returns: {
+          menu_item_id: string
+          order_count: number
+        }[]
+      }
+      menu_item_ratings: {
+        Args: { cafeteria_uuid: string }
+        Returns: {
+          average_rating: number
+          menu_item_id: string
+          review_count: number
+        }[]
+      }
+      normalize_vocabulary_ids: {
+        Args: { terms: string[] }
+        Returns: string[]
+      }
+      sync_budget_periods: {
+        Args: { budget_uuid: string }
+        Returns: {
+          allowance: number
+          budget_id: string
+          carry_in: number
+          carry_out: number
+          created_at: string
+          id: string
+          period_end: string
+          period_start: string
+          spent: number
+          user_id: string
+        }[]
+      }
+      to_vocabulary_id: {
+        Args: { term: string }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "user" | "cafeteria_admin" | "system_admin"
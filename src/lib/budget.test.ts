@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeBudgetOverrun,
+  getBudgetOverrun,
+  getTightestBudget,
+  isBudgetOverrunMessage,
+  type BudgetStanding
+} from '@/lib/budget';
+
+const weekly: BudgetStanding = { budget_type: 'weekly', enforcement_mode: 'block', remaining: 40 };
+const daily: BudgetStanding = { budget_type: 'daily', enforcement_mode: 'warn', remaining: 12 };
+
+describe('getTightestBudget', () => {
+  it('picks the budget with the least left', () => {
+    expect(getTightestBudget([weekly, daily])).toBe(daily);
+    expect(getTightestBudget([])).toBeNull();
+  });
+});
+
+describe('getBudgetOverrun', () => {
+  it('lets an order that fits every budget through', () => {
+    expect(getBudgetOverrun([weekly, daily], 12)).toBeNull();
+  });
+
+  it('holds the order to the strictest budget it overruns', () => {
+    const overrun = getBudgetOverrun([weekly, daily], 45);
+
+    expect(overrun?.budget_type).toBe('weekly');
+    expect(overrun?.enforcement_mode).toBe('block');
+    expect(overrun?.overBy).toBe(5);
+  });
+
+  it('ignores fractions of a cent', () => {
+    expect(getBudgetOverrun([{ ...daily, remaining: 0.1 + 0.2 }], 0.3)).toBeNull();
+  });
+});
+
+describe('describeBudgetOverrun', () => {
+  it('words the overrun the way checkout_cart does', () => {
+    const message = describeBudgetOverrun(5, 'weekly');
+
+    expect(message).toBe('This order is $5.00 over your weekly budget');
+    expect(isBudgetOverrunMessage(message)).toBe(true);
+    expect(isBudgetOverrunMessage('Only 2 left of Pizza')).toBe(false);
+  });
+});
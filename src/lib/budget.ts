@@ -0,0 +1,169 @@
+import {
+  DEFAULT_CAMPUS_TIME_ZONE,
+  addCalendarDays,
+  diffCalendarDays,
+  getCalendarWeekday,
+  getCampusDate,
+  getCampusDayStart
+} from '@/lib/dates';
+
+export type BudgetType = 'daily' | 'weekly' | 'monthly' | 'semester';
+
+export interface BudgetLimit {
+  budget_type: string;
+  amount: number;
+  week_start_day?: number | null;
+  period_start?: string | null;
+  period_end?: string | null;
+}
+
+export type RolloverPolicy = 'none' | 'carry' | 'carry_capped';
+
+export const ROLLOVER_POLICIES: { value: RolloverPolicy; label: string; description: string }[] = [
+  { value: 'none', label: 'No rollover', description: 'Unspent money does not carry over' },
+  { value: 'carry', label: 'Carry over', description: 'Unspent money is added to the next period' },
+  { value: 'carry_capped', label: 'Carry with cap', description: 'Unspent money carries over up to a cap' },
+];
+
+export interface BudgetPeriodHistory {
+  id: string;
+  period_start: string;
+  period_end: string;
+  carry_in: number;
+  allowance: number;
+  spent: number;
+  carry_out: number;
+}
+
+export interface BudgetPeriod {
+  // Campus calendar dates; endDate is the first day after the period
+  startDate: string;
+  endDate: string;
+  start: Date;
+  end: Date;
+}
+
+export const BUDGET_TYPES: { value: BudgetType; label: string; periodLabel: string }[] = [
+  { value: 'daily', label: 'Daily', periodLabel: 'Today' },
+  { value: 'weekly', label: 'Weekly', periodLabel: 'This Week' },
+  { value: 'monthly', label: 'Monthly', periodLabel: 'This Month' },
+  { value: 'semester', label: 'Semester', periodLabel: 'This Semester' },
+];
+
+export const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const sumAmounts = (rows: { amount: number | string }[] | null | undefined) =>
+  (rows || []).reduce((sum, row) => sum + parseFloat(row.amount.toString()), 0);
+
+// Calendar-aligned window containing `now`, in campus days, that a budget's amount applies to
+export function getBudgetPeriod(
+  budget: BudgetLimit,
+  now = new Date(),
+  timeZone = DEFAULT_CAMPUS_TIME_ZONE
+): BudgetPeriod {
+  const today = getCampusDate(now, timeZone);
+  let startDate = today;
+  let endDate = addCalendarDays(today, 1);
+
+  switch (budget.budget_type) {
+    case 'weekly': {
+      const offset = (getCalendarWeekday(today) - (budget.week_start_day ?? 1) + 7) % 7;
+      startDate = addCalendarDays(today, -offset);
+      endDate = addCalendarDays(startDate, 7);
+      break;
+    }
+    case 'monthly': {
+      const [year, month] = today.split('-').map(Number);
+      startDate = `${today.slice(0, 7)}-01`;
+      endDate = new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0];
+      break;
+    }
+    case 'semester':
+      if (budget.period_start && budget.period_end) {
+        startDate = budget.period_start;
+        endDate = addCalendarDays(budget.period_end, 1);
+      }
+      break;
+  }
+
+  return {
+    startDate,
+    endDate,
+    start: getCampusDayStart(startDate, timeZone),
+    end: getCampusDayStart(endDate, timeZone)
+  };
+}
+
+export const getPeriodDays = (period: BudgetPeriod) =>
+  Math.max(diffCalendarDays(period.endDate, period.startDate), 1);
+
+// Days of the period that have started, counting today
+export const getElapsedPeriodDays = (period: BudgetPeriod, now = new Date(), timeZone = DEFAULT_CAMPUS_TIME_ZONE) =>
+  Math.min(Math.max(diffCalendarDays(getCampusDate(now, timeZone), period.startDate) + 1, 1), getPeriodDays(period));
+
+// History only holds closed periods, so the newest row's carry-out feeds the current period
+export const getCarryIn = (history: Pick<BudgetPeriodHistory, 'period_start' | 'carry_out'>[] | null | undefined) => {
+  if (!history || history.length === 0) return 0;
+  const latest = history.reduce((a, b) => (a.period_start > b.period_start ? a : b));
+  return parseFloat(latest.carry_out.toString());
+};
+
+export const getDailyLimit = (budget: BudgetLimit, carryIn = 0, now = new Date(), timeZone = DEFAULT_CAMPUS_TIME_ZONE) =>
+  (budget.amount + carryIn) / getPeriodDays(getBudgetPeriod(budget, now, timeZone));
+
+export const getRemainingDailyBudget = (
+  budget: BudgetLimit,
+  spentToday: number,
+  carryIn = 0,
+  now = new Date(),
+  timeZone = DEFAULT_CAMPUS_TIME_ZONE
+) => Math.max(getDailyLimit(budget, carryIn, now, timeZone) - spentToday, 0);
+
+export type EnforcementMode = 'warn' | 'confirm' | 'block';
+
+export const ENFORCEMENT_MODES: { value: EnforcementMode; label: string; description: string }[] = [
+  { value: 'warn', label: 'Warn', description: 'Let purchases through and flag overspending' },
+  { value: 'confirm', label: 'Confirm', description: 'Ask before placing an order over the limit' },
+  { value: 'block', label: 'Block', description: 'Refuse orders that would exceed the limit' },
+];
+
+export const getRemainingPeriodBudget = (budget: BudgetLimit, spentInPeriod: number, carryIn = 0) =>
+  Math.max(budget.amount + carryIn - spentInPeriod, 0);
+
+export interface BudgetStanding {
+  budget_type: string;
+  enforcement_mode: EnforcementMode;
+  // Left in the budget's current period, including any carry-in
+  remaining: number;
+}
+
+const ENFORCEMENT_STRICTNESS: EnforcementMode[] = ['warn', 'confirm', 'block'];
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// The budget with the least left is the one the cart and checkout both measure an order against
+export const getTightestBudget = <T extends BudgetStanding>(standings: T[]) =>
+  standings.reduce<T | null>(
+    (tightest, standing) => (!tightest || standing.remaining < tightest.remaining ? standing : tightest),
+    null
+  );
+
+// Of the budgets an order total would overrun, the one with the strictest enforcement mode
+export const getBudgetOverrun = (standings: BudgetStanding[], total: number) => {
+  const overrun = standings.filter(standing => toCents(total) > toCents(standing.remaining));
+  if (overrun.length === 0) return null;
+
+  const strictest = overrun.reduce((a, b) => {
+    const strictness = ENFORCEMENT_STRICTNESS.indexOf(b.enforcement_mode) - ENFORCEMENT_STRICTNESS.indexOf(a.enforcement_mode);
+    return strictness > 0 || (strictness === 0 && b.remaining < a.remaining) ? b : a;
+  });
+
+  return { ...strictest, overBy: total - strictest.remaining };
+};
+
+// checkout_cart raises the same sentence when a blocking budget refuses an order
+export const describeBudgetOverrun = (overBy: number, budgetType: string) =>
+  `This order is $${overBy.toFixed(2)} over your ${budgetType} budget`;
+
+export const isBudgetOverrunMessage = (message: string) =>
+  /^This order is \$\d+\.\d{2} over your \w+ budget$/.test(message);
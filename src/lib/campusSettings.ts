@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import { setCampusTimeZone } from '@/lib/dates';
+
+// Reads the campus time zone the database uses so client and server agree on "today"
+export async function loadCampusTimeZone() {
+  try {
+    const { data, error } = await supabase
+      .from('campus_settings')
+      .select('time_zone')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) setCampusTimeZone(data.time_zone);
+  } catch (error) {
+    console.error('Error loading campus time zone:', error);
+  }
+}
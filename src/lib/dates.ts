@@ -0,0 +1,94 @@
+// "Today" on campus, not in UTC: every calendar-day computation goes through these helpers.
+// Individual cafeterias can override the campus-wide default time zone, which lives in
+// public.campus_settings alongside the database's campus_time_zone() and is loaded at startup.
+export let DEFAULT_CAMPUS_TIME_ZONE = 'America/New_York';
+
+export const setCampusTimeZone = (timeZone: string) => {
+  DEFAULT_CAMPUS_TIME_ZONE = timeZone;
+};
+
+// IANA zones the browser can format; older browsers without Intl.supportedValuesOf only offer the default
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') ?? [DEFAULT_CAMPUS_TIME_ZONE];
+};
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Milliseconds the time zone is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Calendar date (yyyy-MM-dd) of an instant as seen on campus
+export const getCampusDate = (date: Date | string = new Date(), timeZone = DEFAULT_CAMPUS_TIME_ZONE) => {
+  const { year, month, day } = getZonedParts(typeof date === 'string' ? new Date(date) : date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Wall-clock time (HH:mm) of an instant as seen on campus
+export const getCampusTime = (date: Date = new Date(), timeZone = DEFAULT_CAMPUS_TIME_ZONE) => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+// Instant at which a campus wall-clock time (yyyy-MM-dd, HH:mm) occurs
+export const campusTimeToDate = (date: string, time = '00:00', timeZone = DEFAULT_CAMPUS_TIME_ZONE) => {
+  const wallClock = Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // Re-check the offset at the guessed instant in case it straddles a DST change
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+export const getCampusDayStart = (date: string, timeZone = DEFAULT_CAMPUS_TIME_ZONE) =>
+  campusTimeToDate(date, '00:00', timeZone);
+
+export const isOnCampusDate = (timestamp: string, date: string, timeZone = DEFAULT_CAMPUS_TIME_ZONE) =>
+  getCampusDate(timestamp, timeZone) === date;
+
+// Plain calendar arithmetic on yyyy-MM-dd strings, independent of any time zone
+export const addCalendarDays = (date: string, days: number) => {
+  const shifted = new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000);
+  return shifted.toISOString().split('T')[0];
+};
+
+export const diffCalendarDays = (later: string, earlier: string) =>
+  Math.round((Date.parse(`${later}T00:00:00Z`) - Date.parse(`${earlier}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+
+// 0 = Sunday ... 6 = Saturday
+export const getCalendarWeekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
@@ -0,0 +1,66 @@
+import { getAllergenLabel } from '@/lib/nutrition';
+
+// Each profile dietary preference maps to the check an item's dietary_tags must pass.
+// Preferences without an explicit rule require the item to carry a tag of the same name.
+const PREFERENCE_RULES: Record<string, (tags: string[]) => boolean> = {
+  vegetarian: (tags) => tags.includes('vegetarian') || tags.includes('vegan'),
+  vegan: (tags) => tags.includes('vegan'),
+  'gluten-free': (tags) => tags.includes('gluten-free') || !tags.includes('gluten'),
+  'dairy-free': (tags) => tags.includes('dairy-free') || tags.includes('vegan'),
+  'nut-free': (tags) => tags.includes('nut-free') || !tags.includes('nuts'),
+  'low-carb': (tags) => tags.includes('low-carb') || tags.includes('keto'),
+};
+
+// A declared allergen rules an item out for these preferences whatever its tags say
+const PREFERENCE_ALLERGENS: Record<string, string[]> = {
+  vegetarian: ['fish', 'shellfish'],
+  vegan: ['milk', 'eggs', 'fish', 'shellfish'],
+  'gluten-free': ['wheat'],
+  'dairy-free': ['milk'],
+  'nut-free': ['tree_nuts', 'peanuts'],
+};
+
+export interface DietaryProfile {
+  preferences: string[] | null;
+  allergies: string[] | null;
+}
+
+export interface DietaryItem {
+  dietary_tags: string[] | null;
+  allergens?: string[] | null;
+}
+
+export const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+export function getConflictingPreferences(
+  tags: string[] | null,
+  preferences: string[] | null,
+  allergens: string[] | null = null
+): string[] {
+  const itemTags = (tags || []).map(normalizeTag);
+
+  return (preferences || []).map(normalizeTag).filter((preference) => {
+    if ((PREFERENCE_ALLERGENS[preference] || []).some((allergen) => allergens?.includes(allergen))) return true;
+    const rule = PREFERENCE_RULES[preference];
+    return rule ? !rule(itemTags) : !itemTags.includes(preference);
+  });
+}
+
+// Allergens in the item the student is allergic to
+export const getConflictingAllergens = (allergens: string[] | null | undefined, allergies: string[] | null) =>
+  (allergens || []).filter((allergen) => (allergies || []).includes(allergen));
+
+// Why an item doesn't suit the student, e.g. ["Contains Peanuts", "Not Vegan"]; empty when it does.
+// Pass the vocabulary's getTagLabel so preferences read as their display labels rather than slugs.
+export const getDietaryConflicts = (
+  item: DietaryItem,
+  { preferences, allergies }: DietaryProfile,
+  getTagLabel: (tag: string) => string = (tag) => tag
+) => [
+  ...getConflictingAllergens(item.allergens, allergies).map((allergen) => `Contains ${getAllergenLabel(allergen)}`),
+  ...getConflictingPreferences(item.dietary_tags, preferences, item.allergens ?? null)
+    .map((preference) => `Not ${getTagLabel(preference)}`),
+];
+
+export const conflictsWithDiet = (item: DietaryItem, profile: DietaryProfile) =>
+  getDietaryConflicts(item, profile).length > 0;
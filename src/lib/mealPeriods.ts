@@ -0,0 +1,40 @@
+export interface MealPeriod {
+  id: string;
+  name: string;
+  // Wall-clock times in the cafeteria's time zone, as Postgres returns them (HH:mm:ss)
+  starts_at: string;
+  ends_at: string;
+}
+
+// HH:mm and HH:mm:ss compare correctly as strings once trimmed to minutes
+const toMinutes = (time: string) => time.slice(0, 5);
+
+export const sortMealPeriods = <T extends MealPeriod>(periods: T[]) =>
+  [...periods].sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+
+export const isMealPeriodClosed = (period: MealPeriod, time: string) =>
+  toMinutes(period.ends_at) <= toMinutes(time);
+
+export const isMealPeriodOpen = (period: MealPeriod, time: string) =>
+  toMinutes(period.starts_at) <= toMinutes(time) && !isMealPeriodClosed(period, time);
+
+// The period being served now, else the next one today, else null once service is over
+export function getCurrentMealPeriod<T extends MealPeriod>(periods: T[], time: string): T | null {
+  const upcoming = sortMealPeriods(periods).filter(period => !isMealPeriodClosed(period, time));
+  return upcoming.find(period => isMealPeriodOpen(period, time)) || upcoming[0] || null;
+}
+
+// A dish without periods is served all day; otherwise it is gone once all of its windows have closed
+export const isServedAfter = (periodIds: string[], periods: MealPeriod[], time: string) =>
+  periodIds.length === 0 ||
+  periods.some(period => periodIds.includes(period.id) && !isMealPeriodClosed(period, time));
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = toMinutes(time).split(':').map(Number);
+  const suffix = hours < 12 ? 'am' : 'pm';
+  const displayHours = hours % 12 || 12;
+  return minutes === 0 ? `${displayHours}${suffix}` : `${displayHours}:${minutes.toString().padStart(2, '0')}${suffix}`;
+};
+
+export const formatServingWindow = (period: MealPeriod) =>
+  `${formatTime(period.starts_at)}–${formatTime(period.ends_at)}`;
@@ -0,0 +1,124 @@
+// Search, filter and sort state for the student menu. It lives in the URL query
+// string so a filtered menu can be bookmarked or shared as a link.
+export type MenuSort = 'featured' | 'price-asc' | 'price-desc' | 'popular' | 'rating';
+
+export interface MenuFilters {
+  q: string;
+  category: string;
+  tag: string;
+  minPrice: string;
+  maxPrice: string;
+  period: string;
+  sort: MenuSort;
+}
+
+export interface FilterableItem {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  category: string;
+  dietary_tags: string[] | null;
+  // Empty when the dish is served all day
+  meal_period_ids: string[];
+}
+
+export const MENU_SORTS: { value: MenuSort; label: string }[] = [
+  { value: 'featured', label: 'Featured' },
+  { value: 'price-asc', label: 'Price: low to high' },
+  { value: 'price-desc', label: 'Price: high to low' },
+  { value: 'popular', label: 'Most popular' },
+  { value: 'rating', label: 'Top rated' },
+];
+
+export const DEFAULT_MENU_FILTERS: MenuFilters = {
+  q: '',
+  category: 'all',
+  tag: 'all',
+  minPrice: '',
+  maxPrice: '',
+  period: 'all',
+  sort: 'featured',
+};
+
+const FILTER_PARAMS: Record<keyof MenuFilters, string> = {
+  q: 'q',
+  category: 'category',
+  tag: 'tag',
+  minPrice: 'min',
+  maxPrice: 'max',
+  period: 'period',
+  sort: 'sort',
+};
+
+// The meal period has no fixed default: until the student picks one (including "All day"),
+// the menu suggests the one being served now, so an explicit choice always stays in the URL
+const ALWAYS_WRITTEN: (keyof MenuFilters)[] = ['period'];
+
+// Anything missing from the URL falls back to `defaults`
+export function readMenuFilters(params: URLSearchParams, defaults: MenuFilters = DEFAULT_MENU_FILTERS): MenuFilters {
+  const sort = params.get(FILTER_PARAMS.sort);
+
+  return {
+    q: params.get(FILTER_PARAMS.q) ?? defaults.q,
+    category: params.get(FILTER_PARAMS.category) ?? defaults.category,
+    tag: params.get(FILTER_PARAMS.tag) ?? defaults.tag,
+    minPrice: params.get(FILTER_PARAMS.minPrice) ?? defaults.minPrice,
+    maxPrice: params.get(FILTER_PARAMS.maxPrice) ?? defaults.maxPrice,
+    period: params.get(FILTER_PARAMS.period) ?? defaults.period,
+    sort: MENU_SORTS.some(option => option.value === sort) ? sort as MenuSort : defaults.sort,
+  };
+}
+
+// Defaults are left out of the URL to keep shared links short; pass undefined to clear a filter
+export function writeMenuFilters(params: URLSearchParams, changes: Partial<MenuFilters>): URLSearchParams {
+  const next = new URLSearchParams(params);
+
+  (Object.keys(changes) as (keyof MenuFilters)[]).forEach((key) => {
+    const value = changes[key];
+    if (value === undefined || (value === DEFAULT_MENU_FILTERS[key] && !ALWAYS_WRITTEN.includes(key))) {
+      next.delete(FILTER_PARAMS[key]);
+    } else {
+      next.set(FILTER_PARAMS[key], value);
+    }
+  });
+
+  return next;
+}
+
+export const hasActiveFilters = (filters: MenuFilters) =>
+  (['q', 'category', 'tag', 'minPrice', 'maxPrice'] as const).some(key => filters[key] !== DEFAULT_MENU_FILTERS[key]);
+
+export function applyMenuFilters<T extends FilterableItem>(
+  items: T[],
+  filters: MenuFilters,
+  popularity: Record<string, number> = {},
+  ratings: Record<string, number> = {}
+): T[] {
+  const query = filters.q.trim().toLowerCase();
+  const minPrice = filters.minPrice ? parseFloat(filters.minPrice) : null;
+  const maxPrice = filters.maxPrice ? parseFloat(filters.maxPrice) : null;
+
+  const matching = items.filter(item =>
+    (!query || item.name.toLowerCase().includes(query) || (item.description || '').toLowerCase().includes(query)) &&
+    (filters.category === 'all' || item.category === filters.category) &&
+    (filters.tag === 'all' || (item.dietary_tags || []).includes(filters.tag)) &&
+    (minPrice === null || item.price >= minPrice) &&
+    (maxPrice === null || item.price <= maxPrice) &&
+    (filters.period === 'all' || item.meal_period_ids.length === 0 || item.meal_period_ids.includes(filters.period))
+  );
+
+  switch (filters.sort) {
+    case 'price-asc':
+      return [...matching].sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return [...matching].sort((a, b) => b.price - a.price);
+    case 'popular':
+      return [...matching].sort((a, b) => (popularity[b.id] ?? 0) - (popularity[a.id] ?? 0));
+    case 'rating':
+      // Unrated dishes sink to the bottom
+      return [...matching].sort((a, b) => (ratings[b.id] ?? 0) - (ratings[a.id] ?? 0));
+    default:
+      return matching;
+  }
+}
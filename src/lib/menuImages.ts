@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Public bucket; write access is limited to admins of the cafeteria named by the first path segment
+export const MENU_IMAGE_BUCKET = 'menu-images';
+
+export const MENU_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_MENU_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 400;
+
+export interface MenuImagePaths {
+  image_path: string | null;
+  thumbnail_path: string | null;
+}
+
+export const getMenuImageUrl = (path: string | null | undefined) =>
+  path ? supabase.storage.from(MENU_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl : null;
+
+// Returns a reason the file can't be used, or null if it's fine
+export const validateMenuImage = (file: File) => {
+  if (!MENU_IMAGE_TYPES.includes(file.type)) return 'Use a JPEG, PNG or WebP image.';
+  if (file.size > MAX_MENU_IMAGE_BYTES) return 'Images must be 5 MB or smaller.';
+  return null;
+};
+
+// Scales the image down so its longer side fits maxSize and re-encodes it as JPEG
+export async function createThumbnail(file: File, maxSize = THUMBNAIL_SIZE): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))),
+      'image/jpeg',
+      0.8
+    );
+  });
+}
+
+// Each upload gets fresh object names so cached copies of an old photo never linger
+export async function uploadMenuImage(cafeteriaId: string, file: File): Promise<MenuImagePaths> {
+  const baseName = `${cafeteriaId}/${crypto.randomUUID()}`;
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const image_path = `${baseName}.${extension}`;
+  const thumbnail_path = `${baseName}-thumb.jpg`;
+  const thumbnail = await createThumbnail(file);
+
+  const { error: imageError } = await supabase.storage
+    .from(MENU_IMAGE_BUCKET)
+    .upload(image_path, file, { contentType: file.type });
+  if (imageError) throw imageError;
+
+  const { error: thumbnailError } = await supabase.storage
+    .from(MENU_IMAGE_BUCKET)
+    .upload(thumbnail_path, thumbnail, { contentType: 'image/jpeg' });
+  if (thumbnailError) {
+    await removeMenuImages({ image_path, thumbnail_path: null });
+    throw thumbnailError;
+  }
+
+  return { image_path, thumbnail_path };
+}
+
+export async function removeMenuImages({ image_path, thumbnail_path }: MenuImagePaths) {
+  const paths = [image_path, thumbnail_path].filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(MENU_IMAGE_BUCKET).remove(paths);
+  if (error) throw error;
+}
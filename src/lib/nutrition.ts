@@ -0,0 +1,78 @@
+export interface Nutrition {
+  calories: number | null;
+  protein_g: number | null;
+  carbs_g: number | null;
+  fat_g: number | null;
+  sodium_mg: number | null;
+}
+
+export type Nutrient = keyof Nutrition;
+
+// Daily targets as stored on profiles; null means the student hasn't set one
+export interface NutritionGoalColumns {
+  calorie_goal: number | null;
+  protein_goal_g: number | null;
+  carbs_goal_g: number | null;
+  fat_goal_g: number | null;
+  sodium_goal_mg: number | null;
+}
+
+export const toNutritionGoals = (profile: Partial<NutritionGoalColumns> | null | undefined): Nutrition => ({
+  calories: profile?.calorie_goal ?? null,
+  protein_g: profile?.protein_goal_g ?? null,
+  carbs_g: profile?.carbs_goal_g ?? null,
+  fat_g: profile?.fat_goal_g ?? null,
+  sodium_mg: profile?.sodium_goal_mg ?? null,
+});
+
+export const NUTRIENTS: { key: Nutrient; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'cal' },
+  { key: 'protein_g', label: 'Protein', unit: 'g' },
+  { key: 'carbs_g', label: 'Carbs', unit: 'g' },
+  { key: 'fat_g', label: 'Fat', unit: 'g' },
+  { key: 'sodium_mg', label: 'Sodium', unit: 'mg' },
+];
+
+// Sodium is a ceiling to stay under; the rest are targets to reach
+export const isNutrientLimit = (key: Nutrient) => key === 'sodium_mg';
+
+// The major food allergens; menu_items.allergens is constrained to these values
+export const ALLERGENS: { value: string; label: string }[] = [
+  { value: 'milk', label: 'Milk' },
+  { value: 'eggs', label: 'Eggs' },
+  { value: 'fish', label: 'Fish' },
+  { value: 'shellfish', label: 'Shellfish' },
+  { value: 'tree_nuts', label: 'Tree Nuts' },
+  { value: 'peanuts', label: 'Peanuts' },
+  { value: 'wheat', label: 'Wheat' },
+  { value: 'soy', label: 'Soy' },
+  { value: 'sesame', label: 'Sesame' },
+];
+
+export const getAllergenLabel = (allergen: string) =>
+  ALLERGENS.find(({ value }) => value === allergen)?.label ?? allergen;
+
+export const formatNutrient = (key: Nutrient, value: number) => {
+  const { unit } = NUTRIENTS.find(nutrient => nutrient.key === key)!;
+  const amount = Number.isInteger(value) ? value.toString() : value.toFixed(1);
+  return unit === 'cal' ? `${amount} ${unit}` : `${amount}${unit}`;
+};
+
+export const hasNutrition = (item: Partial<Nutrition>) =>
+  NUTRIENTS.some(({ key }) => item[key] !== null && item[key] !== undefined);
+
+// Totals across purchases; dishes without a value for a nutrient simply don't add to it
+export function sumNutrition(lines: { quantity: number; menu_items: Partial<Nutrition> | null }[]): Nutrition {
+  const totals: Nutrition = { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0, sodium_mg: 0 };
+
+  lines.forEach(({ quantity, menu_items: item }) => {
+    if (!item) return;
+    NUTRIENTS.forEach(({ key }) => {
+      if (item[key] !== null && item[key] !== undefined) {
+        totals[key] += Number(item[key]) * quantity;
+      }
+    });
+  });
+
+  return totals;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { recommendMeal, scoreItems, solveGroupedKnapsack, type RecommendableItem } from '@/lib/recommendations';
+
+const dish = (id: string, price: number, category: string, extra: Partial<RecommendableItem> = {}): RecommendableItem => ({
+  id,
+  name: id,
+  price,
+  category,
+  meal_slot: category === 'main' ? 'main' : 'side',
+  dietary_tags: [],
+  allergens: [],
+  ...extra,
+});
+
+const asOf = new Date('2025-10-20T12:00:00Z');
+const daysAgo = (days: number) => new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+describe('solveGroupedKnapsack', () => {
+  it('picks at most one item per group within capacity', () => {
+    const picked = solveGroupedKnapsack([[5, 8], [3, 4]], 12, (w) => w, (w) => w);
+    expect(picked).toEqual([8, 4]);
+  });
+
+  it('skips a group when nothing in it fits', () => {
+    expect(solveGroupedKnapsack([[5], [20]], 10, (w) => w, (w) => w)).toEqual([5]);
+  });
+});
+
+describe('scoreItems', () => {
+  it('scores dishes the student orders often and rated highly above untried ones', () => {
+    const items = [dish('burger', 8, 'main'), dish('pasta', 9, 'main'), dish('curry', 9, 'main')];
+    const scores = scoreItems(
+      items,
+      [
+        { menu_item_id: 'burger', category: 'main', quantity: 3, transaction_date: daysAgo(2) },
+      ],
+      { pasta: 5 },
+      asOf
+    );
+
+    expect(scores.burger.signal).toBe('frequency');
+    expect(scores.pasta.signal).toBe('rating');
+    expect(scores.pasta.explanation).toBe('you rated it 5/5');
+    expect(scores.curry.signal).toBeNull();
+    expect(scores.burger.score).toBeGreaterThan(scores.curry.score);
+  });
+
+  it('ignores pre-orders for days that have not happened yet', () => {
+    const scores = scoreItems(
+      [dish('burger', 8, 'main')],
+      [{ menu_item_id: 'burger', category: 'main', quantity: 1, transaction_date: daysAgo(-2) }],
+      {},
+      asOf
+    );
+
+    expect(scores.burger.score).toBe(0);
+  });
+});
+
+describe('recommendMeal', () => {
+  it('returns null when nothing is eligible', () => {
+    expect(recommendMeal([], { remainingBudget: 10, asOf })).toBeNull();
+    expect(recommendMeal([dish('steak', 25, 'main')], { remainingBudget: 10, asOf })).toBeNull();
+  });
+
+  it('returns null without any budget left', () => {
+    expect(recommendMeal([dish('soup', 3, 'soup')], { remainingBudget: 0, asOf })).toBeNull();
+  });
+
+  it('includes items priced exactly at the remaining budget', () => {
+    const meal = recommendMeal([dish('burger', 8.5, 'main')], { remainingBudget: 8.5, asOf });
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['burger']);
+    expect(meal?.totalCost).toBe(8.5);
+  });
+
+  it('excludes items one cent over the remaining budget', () => {
+    const meal = recommendMeal(
+      [dish('burger', 8.51, 'main'), dish('soup', 3, 'soup')],
+      { remainingBudget: 8.5, asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['soup']);
+  });
+
+  it('explains a lone side by the missing main course', () => {
+    const meal = recommendMeal(
+      [dish('steak', 20, 'main'), dish('soup', 3, 'soup')],
+      { remainingBudget: 5, asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['soup']);
+    expect(meal?.reason).toContain('no main course fits your budget');
+    expect(meal?.reason).not.toContain('no side or beverage fits alongside it');
+  });
+
+  it('explains a better-liked lone side by the main that does not fit alongside it', () => {
+    const meal = recommendMeal(
+      [dish('burger', 5, 'main'), dish('soup', 4, 'soup')],
+      { remainingBudget: 5, ratings: { soup: 5 }, asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['soup']);
+    expect(meal?.reason).toContain('no main course fits alongside it');
+  });
+
+  it('explains a lone main by the missing side', () => {
+    const meal = recommendMeal(
+      [dish('burger', 8, 'main'), dish('soup', 3, 'soup')],
+      { remainingBudget: 9, asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['burger']);
+    expect(meal?.reason).toContain('no side or beverage fits alongside it');
+  });
+
+  it('fills the main slot from the category\'s slot, whatever its id', () => {
+    const meal = recommendMeal(
+      [dish('steak-frites', 9, 'entrees', { meal_slot: 'main' }), dish('soup', 3, 'soup')],
+      { remainingBudget: 12, asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['steak-frites', 'soup']);
+  });
+
+  it('never suggests a dish containing one of the student\'s allergens', () => {
+    const meal = recommendMeal(
+      [
+        dish('pad-thai', 9, 'main', { allergens: ['peanuts'] }),
+        dish('burger', 8, 'main'),
+        dish('soup', 3, 'soup'),
+      ],
+      { remainingBudget: 15, allergies: ['peanuts'], asOf }
+    );
+
+    expect(meal?.items.map((item) => item.id)).toEqual(['burger', 'soup']);
+    expect(meal?.reason).toContain('free of peanuts');
+  });
+});
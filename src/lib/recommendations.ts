@@ -0,0 +1,263 @@
+import { conflictsWithDiet } from '@/lib/dietary';
+import { getAllergenLabel } from '@/lib/nutrition';
+
+export interface RecommendableItem {
+  id: string;
+  name: string;
+  price: number;
+  category: string;
+  // The half of a meal the dish's category fills, from menu_categories.slot
+  meal_slot: MealSlot;
+  dietary_tags: string[] | null;
+  allergens?: string[] | null;
+}
+
+export type MealSlot = 'main' | 'side';
+
+// One line of the student's purchase history
+export interface PurchaseRecord {
+  menu_item_id: string;
+  category: string;
+  quantity: number;
+  transaction_date: string;
+}
+
+export interface RecommendationOptions {
+  remainingBudget: number;
+  dietaryPreferences?: string[] | null;
+  allergies?: string[] | null;
+  budgetLabel?: string;
+  // Recent purchases and the student's own 1-5 ratings, keyed by menu item id
+  history?: PurchaseRecord[];
+  ratings?: Record<string, number>;
+  asOf?: Date;
+}
+
+export type RecommendationSignal = 'frequency' | 'recency' | 'rating' | 'diversity';
+
+export interface ItemScore {
+  // 0 to 1, higher is a better fit for this student
+  score: number;
+  // The signal that contributed most, or null when there's nothing to go on
+  signal: RecommendationSignal | null;
+  explanation: string | null;
+}
+
+export interface MealRecommendation<T extends RecommendableItem> {
+  items: T[];
+  totalCost: number;
+  reason: string;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back purchases count toward a dish's score
+export const HISTORY_DAYS = 90;
+// A purchase counts half as much toward recency after this many days
+const RECENCY_HALF_LIFE_DAYS = 14;
+// Categories eaten within this window count against diversity
+const DIVERSITY_WINDOW_DAYS = 7;
+// Dishes the student rated this low or lower are never suggested
+const DISLIKED_RATING = 2;
+
+const SIGNAL_WEIGHTS: Record<RecommendationSignal, number> = {
+  frequency: 3,
+  recency: 2,
+  rating: 3,
+  diversity: 2,
+};
+const TOTAL_WEIGHT = Object.values(SIGNAL_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+// Scores are compared in whole points so the knapsack can stay in integers
+const SCORE_POINTS = 100;
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+/**
+ * Multiple-choice knapsack: picks at most one item per group so the total weight
+ * stays within capacity and the summed value is as high as possible.
+ */
+export function solveGroupedKnapsack<T>(
+  groups: T[][],
+  capacity: number,
+  weight: (item: T) => number,
+  value: (item: T) => number
+): T[] {
+  let best = new Array<number>(capacity + 1).fill(0);
+  const choices: number[][] = [];
+
+  groups.forEach((group) => {
+    const next = [...best];
+    const choice = new Array<number>(capacity + 1).fill(-1);
+
+    group.forEach((item, index) => {
+      const w = weight(item);
+      const v = value(item);
+      for (let c = w; c <= capacity; c++) {
+        if (best[c - w] + v > next[c]) {
+          next[c] = best[c - w] + v;
+          choice[c] = index;
+        }
+      }
+    });
+
+    choices.push(choice);
+    best = next;
+  });
+
+  const picked: T[] = [];
+  let remaining = capacity;
+  for (let g = groups.length - 1; g >= 0; g--) {
+    const index = choices[g][remaining];
+    if (index >= 0) {
+      picked.unshift(groups[g][index]);
+      remaining -= weight(groups[g][index]);
+    }
+  }
+  return picked;
+}
+
+/**
+ * How well each dish suits the student, learned from what they've bought and rated:
+ * how often and how recently they ordered it, their own rating, and whether its
+ * category would be a change from the past week's meals.
+ */
+export function scoreItems<T extends RecommendableItem>(
+  items: T[],
+  history: PurchaseRecord[] = [],
+  ratings: Record<string, number> = {},
+  asOf: Date = new Date()
+): Record<string, ItemScore> {
+  const portions: Record<string, number> = {};
+  const lastBought: Record<string, number> = {};
+  const recentCategories: Record<string, number> = {};
+  let recentPortions = 0;
+
+  history.forEach(({ menu_item_id, category, quantity, transaction_date }) => {
+    // Pre-orders for later days haven't been eaten yet
+    const daysAgo = (asOf.getTime() - new Date(transaction_date).getTime()) / DAY_MS;
+    if (daysAgo < 0 || daysAgo > HISTORY_DAYS) return;
+
+    portions[menu_item_id] = (portions[menu_item_id] ?? 0) + quantity;
+    lastBought[menu_item_id] = Math.min(lastBought[menu_item_id] ?? Infinity, daysAgo);
+    if (daysAgo <= DIVERSITY_WINDOW_DAYS) {
+      recentCategories[category] = (recentCategories[category] ?? 0) + quantity;
+      recentPortions += quantity;
+    }
+  });
+
+  const mostPortions = Math.max(0, ...Object.values(portions));
+
+  return Object.fromEntries(items.map((item) => {
+    const rating = ratings[item.id];
+    const daysSince = lastBought[item.id];
+    const signals: Record<RecommendationSignal, number> = {
+      frequency: mostPortions > 0 ? (portions[item.id] ?? 0) / mostPortions : 0,
+      recency: daysSince === undefined ? 0 : Math.pow(0.5, daysSince / RECENCY_HALF_LIFE_DAYS),
+      rating: rating ? (rating - DISLIKED_RATING) / (5 - DISLIKED_RATING) : 0,
+      // Without a recent meal to compare against, variety says nothing
+      diversity: recentPortions > 0 ? 1 - (recentCategories[item.category] ?? 0) / recentPortions : 0,
+    };
+
+    let signal: RecommendationSignal | null = null;
+    let score = 0;
+    for (const key of Object.keys(signals) as RecommendationSignal[]) {
+      const contribution = SIGNAL_WEIGHTS[key] * Math.max(0, signals[key]);
+      score += contribution;
+      if (contribution > 0 && (!signal || contribution > SIGNAL_WEIGHTS[signal] * signals[signal])) {
+        signal = key;
+      }
+    }
+
+    const explanations: Record<RecommendationSignal, () => string> = {
+      frequency: () => `you've ordered it ${portions[item.id]} time${portions[item.id] === 1 ? '' : 's'} in the last ${HISTORY_DAYS} days`,
+      recency: () => (daysSince < 1 ? 'you ordered it in the last day' : `you ordered it ${Math.round(daysSince)} day${Math.round(daysSince) === 1 ? '' : 's'} ago`),
+      rating: () => `you rated it ${rating}/5`,
+      diversity: () => "it's a change from what you've eaten this week",
+    };
+
+    return [item.id, {
+      score: score / TOTAL_WEIGHT,
+      signal,
+      explanation: signal ? explanations[signal]() : null,
+    }];
+  }));
+}
+
+export function recommendMeal<T extends RecommendableItem>(
+  items: T[],
+  {
+    remainingBudget,
+    dietaryPreferences,
+    allergies,
+    budgetLabel = 'daily',
+    history = [],
+    ratings = {},
+    asOf = new Date(),
+  }: RecommendationOptions
+): MealRecommendation<T> | null {
+  const capacity = toCents(remainingBudget);
+  if (capacity <= 0) return null;
+
+  // Items that clash with a preference or allergy, or that the student disliked, are never suggested
+  const eligible = items.filter(
+    (item) =>
+      toCents(item.price) <= capacity &&
+      !conflictsWithDiet(item, { preferences: dietaryPreferences ?? null, allergies: allergies ?? null }) &&
+      !(ratings[item.id] && ratings[item.id] <= DISLIKED_RATING)
+  );
+  if (eligible.length === 0) return null;
+
+  const mains = eligible.filter((item) => item.meal_slot === 'main');
+  const sides = eligible.filter((item) => item.meal_slot === 'side');
+  const scores = scoreItems(eligible, history, ratings, asOf);
+  const points = (item: T) => Math.round(scores[item.id].score * SCORE_POINTS);
+
+  // Filling a slot always outweighs any score difference, so a balanced meal wins
+  // over a single better-liked item; a single score point outweighs any price
+  // difference; among equally liked meals the one using more budget wins.
+  const pointValue = capacity + 1;
+  const slotBonus = (SCORE_POINTS + 1) * pointValue;
+  const picked = solveGroupedKnapsack(
+    [mains, sides],
+    capacity,
+    (item) => toCents(item.price),
+    (item) => slotBonus + points(item) * pointValue + toCents(item.price)
+  );
+  if (picked.length === 0) return null;
+
+  const totalCost = picked.reduce((sum, item) => sum + item.price, 0);
+  const preferences = (dietaryPreferences || []).filter(Boolean);
+
+  const reasonParts = [
+    `${picked.map((item) => item.name).join(' + ')} for ${formatPrice(totalCost)} of your ${formatPrice(remainingBudget)} remaining ${budgetLabel} budget`,
+  ];
+  // Say which signal put each dish in the meal so the reasoning is visible to the student
+  picked.forEach((item) => {
+    if (scores[item.id].explanation) {
+      reasonParts.push(`${item.name} because ${scores[item.id].explanation}`);
+    }
+  });
+  if (picked.length === 1) {
+    // Word it from the slot that was actually filled
+    const [missingSlot, missingPool] = picked[0].meal_slot === 'side'
+      ? ['main course', mains]
+      : ['side or beverage', sides];
+    reasonParts.push(
+      missingPool.length === 0 ? `no ${missingSlot} fits your budget` : `no ${missingSlot} fits alongside it`
+    );
+  }
+  if (preferences.length > 0) {
+    reasonParts.push(`matches your ${preferences.join(', ')} preferences`);
+  }
+  if (allergies && allergies.length > 0) {
+    reasonParts.push(`free of ${allergies.map(getAllergenLabel).join(', ').toLowerCase()}`);
+  }
+
+  return {
+    items: picked,
+    totalCost,
+    reason: reasonParts.join('; '),
+  };
+}
@@ -0,0 +1,30 @@
+export interface StockedOffering {
+  portion_count: number | null;
+  portions_sold: number;
+}
+
+// Below this many portions the menu warns students that a dish is about to sell out
+export const LOW_STOCK_THRESHOLD = 5;
+
+// Null when the offering isn't portion-limited
+export const getPortionsLeft = ({ portion_count, portions_sold }: StockedOffering) =>
+  portion_count === null ? null : Math.max(portion_count - portions_sold, 0);
+
+export const isLowStock = (offering: StockedOffering) => {
+  const left = getPortionsLeft(offering);
+  return left !== null && left > 0 && left <= LOW_STOCK_THRESHOLD;
+};
+
+export interface LiveOffering extends StockedOffering {
+  menu_item_id: string;
+  offered_on: string;
+  price_override: number | null;
+  is_available: boolean;
+}
+
+// True when an offering update only moved its stock, as every sale does
+export const isStockOnlyChange = (before: Partial<LiveOffering>, after: LiveOffering) =>
+  before.menu_item_id === after.menu_item_id &&
+  before.offered_on === after.offered_on &&
+  before.price_override === after.price_override &&
+  before.is_available === after.is_available;
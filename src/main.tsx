@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { loadCampusTimeZone } from "./lib/campusSettings";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Date helpers read the campus time zone synchronously, so it has to be known before the first render
+loadCampusTimeZone().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
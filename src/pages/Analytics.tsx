@@ -2,18 +2,42 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useMenuVocabulary } from '@/hooks/useMenuVocabulary';
 import { toast } from '@/components/ui/use-toast';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { format, subDays } from 'date-fns';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  PieChart,
+  Pie,
+  Cell,
+  ReferenceLine
+} from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { addCalendarDays, getCampusDate, getCampusDayStart } from '@/lib/dates';
+import {
+  NUTRIENTS,
+  formatNutrient,
+  isNutrientLimit,
+  sumNutrition,
+  toNutritionGoals,
+  type Nutrition
+} from '@/lib/nutrition';
 
 interface Transaction {
   id: string;
   amount: number;
+  quantity: number;
   transaction_date: string;
+  menu_item_id: string;
   menu_items: {
     name: string;
     category: string;
-  };
+  } & Nutrition;
 }
 
 interface DailySpending {
@@ -21,19 +45,34 @@ interface DailySpending {
   amount: number;
 }
 
+interface DailyNutrition extends Nutrition {
+  date: string;
+}
+
 interface CategorySpending {
   category: string;
   amount: number;
   count: number;
 }
 
+interface DishSpending {
+  id: string;
+  name: string;
+  amount: number;
+  quantity: number;
+}
+
 const Analytics = () => {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [dailySpending, setDailySpending] = useState<DailySpending[]>([]);
   const [categorySpending, setCategorySpending] = useState<CategorySpending[]>([]);
+  const [topDishes, setTopDishes] = useState<DishSpending[]>([]);
+  const [dailyNutrition, setDailyNutrition] = useState<DailyNutrition[]>([]);
+  const [nutritionGoals, setNutritionGoals] = useState<Nutrition>(toNutritionGoals(null));
   const [totalSpent, setTotalSpent] = useState(0);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { getCategoryLabel } = useMenuVocabulary();
 
   useEffect(() => {
     if (user) {
@@ -43,7 +82,7 @@ const Analytics = () => {
 
   const fetchAnalyticsData = async () => {
     try {
-      const thirtyDaysAgo = subDays(new Date(), 30).toISOString();
+      const thirtyDaysAgo = getCampusDayStart(addCalendarDays(getCampusDate(), -30)).toISOString();
 
       // Fetch transactions with menu item details
       const { data: transactionData, error } = await supabase
@@ -51,14 +90,23 @@ const Analytics = () => {
         .select(`
           id,
           amount,
+          quantity,
           transaction_date,
+          menu_item_id,
           menu_items (
             name,
-            category
+            category,
+            calories,
+            protein_g,
+            carbs_g,
+            fat_g,
+            sodium_mg
           )
         `)
         .eq('user_id', user!.id)
         .gte('transaction_date', thirtyDaysAgo)
+        // Pre-orders are dated on their service day and only count once it arrives
+        .lte('transaction_date', new Date().toISOString())
         .order('transaction_date', { ascending: true });
 
       if (error) throw error;
@@ -78,6 +126,19 @@ const Analytics = () => {
       const categoryData = processCategorySpending(transactions);
       setCategorySpending(categoryData);
 
+      setTopDishes(processDishSpending(transactions));
+
+      setDailyNutrition(processDailyNutrition(transactions));
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('calorie_goal, protein_goal_g, carbs_goal_g, fat_goal_g, sodium_goal_mg')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      setNutritionGoals(toNutritionGoals(profile));
+
     } catch (error) {
       console.error('Error fetching analytics data:', error);
       toast({
@@ -93,26 +154,43 @@ const Analytics = () => {
   const processDailySpending = (transactions: Transaction[]): DailySpending[] => {
     const dailyMap = new Map<string, number>();
     
-    // Initialize with last 7 days
+    // Initialize with last 7 campus days
+    const today = getCampusDate();
     for (let i = 6; i >= 0; i--) {
-      const date = format(subDays(new Date(), i), 'yyyy-MM-dd');
-      dailyMap.set(date, 0);
+      dailyMap.set(addCalendarDays(today, -i), 0);
     }
 
     // Add transaction amounts
     transactions.forEach(t => {
-      const date = t.transaction_date.split('T')[0];
+      const date = getCampusDate(t.transaction_date);
       if (dailyMap.has(date)) {
         dailyMap.set(date, dailyMap.get(date)! + parseFloat(t.amount.toString()));
       }
     });
 
     return Array.from(dailyMap.entries()).map(([date, amount]) => ({
-      date: format(new Date(date), 'MMM dd'),
+      date: format(parseISO(date), 'MMM dd'),
       amount: Number(amount.toFixed(2))
     }));
   };
 
+  const processDailyNutrition = (transactions: Transaction[]): DailyNutrition[] => {
+    const today = getCampusDate();
+    const days = Array.from({ length: 7 }, (_, i) => addCalendarDays(today, i - 6));
+
+    return days.map(date => {
+      const totals = sumNutrition(transactions.filter(t => getCampusDate(t.transaction_date) === date));
+      return {
+        date: format(parseISO(date), 'MMM dd'),
+        calories: Math.round(totals.calories ?? 0),
+        protein_g: Math.round(totals.protein_g ?? 0),
+        carbs_g: Math.round(totals.carbs_g ?? 0),
+        fat_g: Math.round(totals.fat_g ?? 0),
+        sodium_mg: Math.round(totals.sodium_mg ?? 0)
+      };
+    });
+  };
+
   const processCategorySpending = (transactions: Transaction[]): CategorySpending[] => {
     const categoryMap = new Map<string, { amount: number; count: number }>();
 
@@ -132,6 +210,29 @@ const Analytics = () => {
     })).sort((a, b) => b.amount - a.amount);
   };
 
+  // Transactions reference catalog dishes, so every day a dish was served counts together
+  const processDishSpending = (transactions: Transaction[]): DishSpending[] => {
+    const dishMap = new Map<string, DishSpending>();
+
+    transactions.forEach(t => {
+      const current = dishMap.get(t.menu_item_id) || {
+        id: t.menu_item_id,
+        name: t.menu_items?.name || 'Unknown item',
+        amount: 0,
+        quantity: 0
+      };
+      dishMap.set(t.menu_item_id, {
+        ...current,
+        amount: current.amount + parseFloat(t.amount.toString()),
+        quantity: current.quantity + t.quantity
+      });
+    });
+
+    return Array.from(dishMap.values())
+      .sort((a, b) => b.quantity - a.quantity || b.amount - a.amount)
+      .slice(0, 5);
+  };
+
   const COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
   if (loading) {
@@ -236,7 +337,7 @@ const Analytics = () => {
                     outerRadius={80}
                     fill="#8884d8"
                     dataKey="amount"
-                    label={({ category, amount }) => `${category}: $${amount}`}
+                    label={({ category, amount }) => `${getCategoryLabel(category)}: $${amount}`}
                   >
                     {categorySpending.map((entry, index) => (
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
@@ -254,6 +355,50 @@ const Analytics = () => {
         </Card>
       </div>
 
+      {/* Nutrition Trends */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Nutrition Trends (Last 7 Days)</CardTitle>
+          <CardDescription>
+            Calories from what you ordered each day{nutritionGoals.calories !== null ? ', against your daily goal' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={dailyNutrition}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis />
+              <Tooltip
+                formatter={(value) => [`${value} cal`, 'Calories']}
+                labelFormatter={(label) => `Date: ${label}`}
+              />
+              <Bar dataKey="calories" fill="#10b981" />
+              {nutritionGoals.calories !== null && (
+                <ReferenceLine y={nutritionGoals.calories} stroke="#ef4444" strokeDasharray="4 4" label="Goal" />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {NUTRIENTS.map(({ key, label }) => {
+              const average = dailyNutrition.reduce((sum, day) => sum + (day[key] ?? 0), 0) / Math.max(dailyNutrition.length, 1);
+              const goal = nutritionGoals[key];
+              return (
+                <div key={key}>
+                  <p className="text-sm text-muted-foreground">{label} / day</p>
+                  <p className="text-xl font-bold">{formatNutrient(key, Math.round(average))}</p>
+                  {goal !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      {isNutrientLimit(key) ? 'Limit' : 'Goal'} {formatNutrient(key, Number(goal))}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Category Details */}
       <Card>
         <CardHeader>
@@ -271,7 +416,7 @@ const Analytics = () => {
                       style={{ backgroundColor: COLORS[index % COLORS.length] }}
                     />
                     <div>
-                      <p className="font-medium">{category.category}</p>
+                      <p className="font-medium">{getCategoryLabel(category.category)}</p>
                       <p className="text-sm text-muted-foreground">
                         {category.count} transaction{category.count !== 1 ? 's' : ''}
                       </p>
@@ -293,6 +438,31 @@ const Analytics = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Dish Details */}
+      {topDishes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Ordered Dishes</CardTitle>
+            <CardDescription>Your favorites over the last 30 days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {topDishes.map((dish) => (
+                <div key={dish.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{dish.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Ordered {dish.quantity} time{dish.quantity !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <p className="font-bold">${dish.amount.toFixed(2)}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -9,26 +9,70 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/components/ui/use-toast';
-import { DollarSign, TrendingUp, TrendingDown, AlertTriangle } from 'lucide-react';
+import {
+  BUDGET_TYPES,
+  ENFORCEMENT_MODES,
+  ROLLOVER_POLICIES,
+  WEEK_DAYS,
+  getBudgetPeriod,
+  getCarryIn,
+  getDailyLimit,
+  getElapsedPeriodDays,
+  sumAmounts,
+  type BudgetPeriodHistory,
+  type BudgetType,
+  type EnforcementMode,
+  type RolloverPolicy
+} from '@/lib/budget';
+import { addCalendarDays, getCampusDate, getCampusDayStart, isOnCampusDate } from '@/lib/dates';
+import { format, parseISO } from 'date-fns';
+import { DollarSign, TrendingUp, TrendingDown, AlertTriangle, CalendarClock } from 'lucide-react';
+import OrderHistory from '@/components/OrderHistory';
+import DailyNutritionSummary from '@/components/DailyNutritionSummary';
 
 interface Budget {
   id: string;
-  budget_type: 'daily' | 'weekly';
+  budget_type: BudgetType;
   amount: number;
   is_active: boolean;
+  enforcement_mode: EnforcementMode;
+  week_start_day: number;
+  period_start: string | null;
+  period_end: string | null;
+  rollover_policy: RolloverPolicy;
+  rollover_cap: number | null;
 }
 
 interface SpendingSummary {
   today: number;
-  thisWeek: number;
+  thisPeriod: number;
+  // Pre-orders for days that haven't arrived yet
+  committed: number;
+  periodLabel: string;
   dailyAverage: number;
 }
 
+// Without an active budget, summaries fall back to a Monday-aligned calendar week
+const DEFAULT_PERIOD_BUDGET = { budget_type: 'weekly', amount: 0, week_start_day: 1 };
+
 const Budget = () => {
   const [budgets, setBudgets] = useState<Budget[]>([]);
-  const [spending, setSpending] = useState<SpendingSummary>({ today: 0, thisWeek: 0, dailyAverage: 0 });
+  const [spending, setSpending] = useState<SpendingSummary>({
+    today: 0,
+    thisPeriod: 0,
+    committed: 0,
+    periodLabel: 'This Week',
+    dailyAverage: 0
+  });
   const [newBudgetAmount, setNewBudgetAmount] = useState('');
-  const [newBudgetType, setNewBudgetType] = useState<'daily' | 'weekly'>('daily');
+  const [newBudgetType, setNewBudgetType] = useState<BudgetType>('daily');
+  const [newWeekStartDay, setNewWeekStartDay] = useState('1');
+  const [newPeriodStart, setNewPeriodStart] = useState('');
+  const [newPeriodEnd, setNewPeriodEnd] = useState('');
+  const [newRolloverPolicy, setNewRolloverPolicy] = useState<RolloverPolicy>('none');
+  const [newRolloverCap, setNewRolloverCap] = useState('');
+  const [rolloverHistory, setRolloverHistory] = useState<BudgetPeriodHistory[]>([]);
+  const [newEnforcementMode, setNewEnforcementMode] = useState<EnforcementMode>('warn');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const { user } = useAuth();
@@ -49,34 +93,52 @@ const Budget = () => {
         .order('created_at', { ascending: false });
 
       if (budgetError) throw budgetError;
-      setBudgets((budgetData as Budget[]) || []);
-
-      // Fetch spending data
-      const today = new Date().toISOString().split('T')[0];
-      const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+      const fetchedBudgets = (budgetData as Budget[]) || [];
+      setBudgets(fetchedBudgets);
+
+      // Close finished periods of a rollover budget so the carry-over is current
+      const activeBudget = fetchedBudgets.find(b => b.is_active);
+      if (activeBudget && activeBudget.rollover_policy !== 'none') {
+        const { data: history, error: historyError } = await supabase
+          .rpc('sync_budget_periods', { budget_uuid: activeBudget.id });
+
+        if (historyError) throw historyError;
+        setRolloverHistory(history || []);
+      } else {
+        setRolloverHistory([]);
+      }
+
+      // Fetch spending for today and the active budget's current period
+      const now = new Date();
+      const today = getCampusDate(now);
+      const periodBudget = activeBudget || DEFAULT_PERIOD_BUDGET;
+      const period = getBudgetPeriod(periodBudget, now);
+      const since = new Date(Math.min(period.start.getTime(), getCampusDayStart(today).getTime()));
 
       const { data: transactions, error: transError } = await supabase
         .from('transactions')
         .select('amount, transaction_date')
         .eq('user_id', user!.id)
-        .gte('transaction_date', weekAgo);
+        .gte('transaction_date', since.toISOString());
 
       if (transError) throw transError;
 
-      // Calculate spending
-      const todaySpending = transactions
-        ?.filter(t => t.transaction_date.startsWith(today))
-        .reduce((sum, t) => sum + parseFloat(t.amount.toString()), 0) || 0;
-
-      const weekSpending = transactions
-        ?.reduce((sum, t) => sum + parseFloat(t.amount.toString()), 0) || 0;
+      // Calculate spending; pre-orders are dated on their service day, so future rows are committed
+      const todaySpending = sumAmounts(transactions?.filter(t => isOnCampusDate(t.transaction_date, today)));
 
-      const dailyAverage = weekSpending / 7;
+      const periodTransactions = transactions?.filter(t => {
+        const date = new Date(t.transaction_date);
+        return date >= period.start && date < period.end;
+      });
+      const periodSpending = sumAmounts(periodTransactions);
+      const periodSpentSoFar = sumAmounts(periodTransactions?.filter(t => new Date(t.transaction_date) <= now));
 
       setSpending({
         today: todaySpending,
-        thisWeek: weekSpending,
-        dailyAverage
+        thisPeriod: periodSpending,
+        committed: sumAmounts(transactions?.filter(t => new Date(t.transaction_date) > now)),
+        periodLabel: BUDGET_TYPES.find(type => type.value === periodBudget.budget_type)?.periodLabel || 'This Period',
+        dailyAverage: periodSpentSoFar / getElapsedPeriodDays(period, now)
       });
     } catch (error) {
       console.error('Error fetching budget data:', error);
@@ -94,6 +156,24 @@ const Budget = () => {
     e.preventDefault();
     if (!newBudgetAmount || !user) return;
 
+    if (newRolloverPolicy === 'carry_capped' && !newRolloverCap) {
+      toast({
+        title: "Missing rollover cap",
+        description: "Enter the most that can carry over into the next period",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (newBudgetType === 'semester' && (!newPeriodStart || !newPeriodEnd || newPeriodEnd < newPeriodStart)) {
+      toast({
+        title: "Invalid semester",
+        description: "Choose a start date and an end date on or after it",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       // Deactivate existing budgets of the same type
@@ -110,7 +190,13 @@ const Budget = () => {
           user_id: user.id,
           budget_type: newBudgetType,
           amount: parseFloat(newBudgetAmount),
-          is_active: true
+          is_active: true,
+          enforcement_mode: newEnforcementMode,
+          week_start_day: parseInt(newWeekStartDay),
+          period_start: newBudgetType === 'semester' ? newPeriodStart : null,
+          period_end: newBudgetType === 'semester' ? newPeriodEnd : null,
+          rollover_policy: newBudgetType === 'semester' ? 'none' : newRolloverPolicy,
+          rollover_cap: newRolloverPolicy === 'carry_capped' ? parseFloat(newRolloverCap) : null
         });
 
       if (error) throw error;
@@ -121,6 +207,9 @@ const Budget = () => {
       });
 
       setNewBudgetAmount('');
+      setNewPeriodStart('');
+      setNewPeriodEnd('');
+      setNewRolloverCap('');
       fetchBudgetData();
     } catch (error) {
       console.error('Error creating budget:', error);
@@ -159,23 +248,77 @@ const Budget = () => {
     }
   };
 
+  const updateEnforcementMode = async (budgetId: string, mode: EnforcementMode) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .update({ enforcement_mode: mode })
+        .eq('id', budgetId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Budget updated",
+        description: ENFORCEMENT_MODES.find(m => m.value === mode)?.description
+      });
+
+      fetchBudgetData();
+    } catch (error) {
+      console.error('Error updating enforcement mode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update budget",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getBudgetDescription = (budget: Budget) => {
+    const rollover = budget.rollover_policy === 'carry'
+      ? ', unspent money carries over'
+      : budget.rollover_policy === 'carry_capped'
+        ? `, carries over up to $${Number(budget.rollover_cap).toFixed(2)}`
+        : '';
+
+    return `${getPeriodDescription(budget)}${rollover}`;
+  };
+
+  const getPeriodDescription = (budget: Budget) => {
+    if (budget.budget_type === 'daily') return 'Daily budget';
+
+    const perDay = `~$${getDailyLimit(budget).toFixed(2)} per day`;
+    if (budget.budget_type === 'weekly') {
+      return `${perDay}, weeks start ${WEEK_DAYS[budget.week_start_day]}`;
+    }
+    if (budget.budget_type === 'semester' && budget.period_start && budget.period_end) {
+      return `${perDay}, ${format(parseISO(budget.period_start), 'MMM d')} – ${format(parseISO(budget.period_end), 'MMM d, yyyy')}`;
+    }
+    return perDay;
+  };
+
   const getActiveBudget = () => budgets.find(b => b.is_active);
 
   const getBudgetProgress = () => {
     const activeBudget = getActiveBudget();
-    if (!activeBudget) return { progress: 0, isOverBudget: false, dailyLimit: 0 };
+    if (!activeBudget) return { progress: 0, isOverBudget: false, dailyLimit: 0, carryIn: 0, allowance: 0 };
 
-    const dailyLimit = activeBudget.budget_type === 'daily' 
-      ? activeBudget.amount 
-      : activeBudget.amount / 7;
+    // Money carried in from the previous period raises this period's allowance
+    const carryIn = getCarryIn(rolloverHistory);
+    const dailyLimit = getDailyLimit(activeBudget, carryIn);
 
     const progress = (spending.today / dailyLimit) * 100;
     const isOverBudget = spending.today > dailyLimit;
 
-    return { progress: Math.min(progress, 100), isOverBudget, dailyLimit };
+    return {
+      progress: Math.min(progress, 100),
+      isOverBudget,
+      dailyLimit,
+      carryIn,
+      allowance: activeBudget.amount + carryIn
+    };
   };
 
-  const { progress, isOverBudget, dailyLimit } = getBudgetProgress();
+  const { progress, isOverBudget, dailyLimit, carryIn, allowance } = getBudgetProgress();
 
   if (loading) {
     return (
@@ -211,7 +354,7 @@ const Budget = () => {
       )}
 
       {/* Spending Overview */}
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Today's Spending</CardTitle>
@@ -227,6 +370,7 @@ const Budget = () => {
                 />
                 <p className="text-xs text-muted-foreground mt-1">
                   ${dailyLimit.toFixed(2)} daily limit
+                  {carryIn > 0 && ` (incl. $${carryIn.toFixed(2)} carried over)`}
                 </p>
               </div>
             )}
@@ -235,11 +379,29 @@ const Budget = () => {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">This Week</CardTitle>
+            <CardTitle className="text-sm font-medium">{spending.periodLabel}</CardTitle>
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${spending.thisWeek.toFixed(2)}</div>
+            <div className="text-2xl font-bold">${spending.thisPeriod.toFixed(2)}</div>
+            {allowance > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                of ${allowance.toFixed(2)} allowance
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Committed</CardTitle>
+            <CalendarClock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${spending.committed.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Pre-ordered for upcoming days
+            </p>
           </CardContent>
         </Card>
 
@@ -254,15 +416,17 @@ const Budget = () => {
         </Card>
       </div>
 
+      <DailyNutritionSummary date={getCampusDate()} />
+
       {/* Create New Budget */}
       <Card>
         <CardHeader>
           <CardTitle>Set New Budget</CardTitle>
-          <CardDescription>Create a daily or weekly spending limit</CardDescription>
+          <CardDescription>Create a daily, weekly, monthly or semester spending limit and choose how strictly it's enforced</CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleCreateBudget} className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="amount">Amount ($)</Label>
                 <Input
@@ -277,17 +441,108 @@ const Budget = () => {
               </div>
               <div className="space-y-2">
                 <Label>Budget Type</Label>
-                <Select value={newBudgetType} onValueChange={(value: 'daily' | 'weekly') => setNewBudgetType(value)}>
+                <Select value={newBudgetType} onValueChange={(value: BudgetType) => setNewBudgetType(value)}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="daily">Daily</SelectItem>
-                    <SelectItem value="weekly">Weekly</SelectItem>
+                    {BUDGET_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label>When Over Budget</Label>
+                <Select value={newEnforcementMode} onValueChange={(value: EnforcementMode) => setNewEnforcementMode(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ENFORCEMENT_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {ENFORCEMENT_MODES.find(mode => mode.value === newEnforcementMode)?.description}
+                </p>
+              </div>
             </div>
+            {newBudgetType === 'weekly' && (
+              <div className="space-y-2 max-w-xs">
+                <Label>Week Starts On</Label>
+                <Select value={newWeekStartDay} onValueChange={setNewWeekStartDay}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEK_DAYS.map((day, index) => (
+                      <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {newBudgetType !== 'semester' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Rollover</Label>
+                  <Select value={newRolloverPolicy} onValueChange={(value: RolloverPolicy) => setNewRolloverPolicy(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLLOVER_POLICIES.map((policy) => (
+                        <SelectItem key={policy.value} value={policy.value}>{policy.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {ROLLOVER_POLICIES.find(policy => policy.value === newRolloverPolicy)?.description}
+                  </p>
+                </div>
+                {newRolloverPolicy === 'carry_capped' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="rollover-cap">Rollover Cap ($)</Label>
+                    <Input
+                      id="rollover-cap"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="10.00"
+                      value={newRolloverCap}
+                      onChange={(e) => setNewRolloverCap(e.target.value)}
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            {newBudgetType === 'semester' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="period-start">Semester Start</Label>
+                  <Input
+                    id="period-start"
+                    type="date"
+                    value={newPeriodStart}
+                    onChange={(e) => setNewPeriodStart(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="period-end">Semester End</Label>
+                  <Input
+                    id="period-end"
+                    type="date"
+                    value={newPeriodEnd}
+                    onChange={(e) => setNewPeriodEnd(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+            )}
             <Button type="submit" disabled={saving}>
               {saving ? 'Creating...' : 'Create Budget'
             }</Button>
@@ -315,23 +570,35 @@ const Budget = () => {
                         ${budget.amount.toFixed(2)} / {budget.budget_type}
                       </p>
                       <p className="text-sm text-muted-foreground">
-                        {budget.budget_type === 'weekly' 
-                          ? `~$${(budget.amount / 7).toFixed(2)} per day`
-                          : 'Daily budget'
-                        }
+                        {getBudgetDescription(budget)}
                       </p>
                     </div>
                     <Badge variant={budget.is_active ? 'default' : 'secondary'}>
                       {budget.is_active ? 'Active' : 'Inactive'}
                     </Badge>
                   </div>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => toggleBudgetStatus(budget.id, budget.is_active)}
-                  >
-                    {budget.is_active ? 'Deactivate' : 'Activate'}
-                  </Button>
+                  <div className="flex items-center space-x-2">
+                    <Select
+                      value={budget.enforcement_mode}
+                      onValueChange={(value: EnforcementMode) => updateEnforcementMode(budget.id, value)}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ENFORCEMENT_MODES.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleBudgetStatus(budget.id, budget.is_active)}
+                    >
+                      {budget.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -342,6 +609,39 @@ const Budget = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Rollover History */}
+      {rolloverHistory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Rollover History</CardTitle>
+            <CardDescription>What carried into and out of each past period of your active budget</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {rolloverHistory.map((period) => (
+                <div key={period.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">
+                      {format(parseISO(getCampusDate(period.period_start)), 'MMM d')} – {format(parseISO(addCalendarDays(getCampusDate(period.period_end), -1)), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Spent ${Number(period.spent).toFixed(2)} of ${Number(period.allowance).toFixed(2)}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="text-muted-foreground">In: ${Number(period.carry_in).toFixed(2)}</p>
+                    <p className="font-medium">Out: ${Number(period.carry_out).toFixed(2)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Order History */}
+      <OrderHistory />
     </div>
   );
 };
@@ -7,9 +7,33 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, ChefHat, TrendingUp } from 'lucide-react';
+import { useCafeterias } from '@/hooks/useCafeterias';
+import { useMenuVocabulary } from '@/hooks/useMenuVocabulary';
+import WeeklyMenuPlanner from '@/components/WeeklyMenuPlanner';
+import MealPeriodSettings from '@/components/MealPeriodSettings';
+import MenuItemImage from '@/components/MenuItemImage';
+import MenuReviewsPanel from '@/components/MenuReviewsPanel';
+import { sortMealPeriods, type MealPeriod } from '@/lib/mealPeriods';
+import {
+  MENU_IMAGE_TYPES,
+  removeMenuImages,
+  uploadMenuImage,
+  validateMenuImage,
+  type MenuImagePaths
+} from '@/lib/menuImages';
+import {
+  ALLERGENS,
+  NUTRIENTS,
+  formatNutrient,
+  getAllergenLabel,
+  hasNutrition,
+  type Nutrient,
+  type Nutrition
+} from '@/lib/nutrition';
+import { Plus, Edit, Trash2, ChefHat, TrendingUp, ImagePlus, X } from 'lucide-react';
 
 interface MenuItem {
   id: string;
@@ -17,35 +41,109 @@ interface MenuItem {
   description: string;
   price: number;
   category: string;
-  is_available: boolean;
+  is_active: boolean;
   dietary_tags: string[];
-  available_date: string;
+  cafeteria_id: string;
+  menu_item_meal_periods: { meal_period_id: string }[];
+  allergens: string[];
+  image_path: string | null;
+  thumbnail_path: string | null;
 }
 
+type MenuItemWithNutrition = MenuItem & Nutrition;
+
+const EMPTY_NUTRITION: Record<Nutrient, string> = {
+  calories: '',
+  protein_g: '',
+  carbs_g: '',
+  fat_g: '',
+  sodium_mg: ''
+};
+
+const parseNutrient = (value: string, whole = false) =>
+  value ? (whole ? Math.round(parseFloat(value)) : parseFloat(value)) : null;
+
 export default function CafeteriaAdminDashboard() {
-  const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+  const [menuItems, setMenuItems] = useState<MenuItemWithNutrition[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddingItem, setIsAddingItem] = useState(false);
-  const [editingItem, setEditingItem] = useState<MenuItem | null>(null);
+  const [editingItem, setEditingItem] = useState<MenuItemWithNutrition | null>(null);
   const [newItem, setNewItem] = useState({
     name: '',
     description: '',
     price: '',
     category: '',
-    dietary_tags: '',
-    is_available: true
+    dietary_tags: [] as string[],
+    is_active: true,
+    meal_period_ids: [] as string[],
+    nutrition: EMPTY_NUTRITION,
+    allergens: [] as string[]
   });
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [removeImage, setRemoveImage] = useState(false);
+  const [savingItem, setSavingItem] = useState(false);
+  const [mealPeriods, setMealPeriods] = useState<MealPeriod[]>([]);
+  const [plannerRefresh, setPlannerRefresh] = useState(0);
+  const [cafeteriaId, setCafeteriaId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { cafeterias, loading: cafeteriasLoading } = useCafeterias({ managedOnly: true });
+  const { categories, dietaryTags, getCategoryLabel, getTagLabel } = useMenuVocabulary();
+
+  const selectedCafeteria = cafeterias.find(cafeteria => cafeteria.id === cafeteriaId);
 
   useEffect(() => {
-    fetchMenuItems();
-  }, []);
+    if (!cafeteriasLoading && !cafeteriaId) {
+      if (cafeterias.length > 0) {
+        setCafeteriaId(cafeterias[0].id);
+      } else {
+        setLoading(false);
+      }
+    }
+  }, [cafeteriasLoading, cafeterias]);
+
+  useEffect(() => {
+    if (cafeteriaId) {
+      fetchMenuItems();
+      fetchMealPeriods();
+    }
+  }, [cafeteriaId]);
+
+  useEffect(() => {
+    if (!imageFile) {
+      setImagePreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(imageFile);
+    setImagePreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [imageFile]);
+
+  const fetchMealPeriods = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meal_periods')
+        .select('id, name, starts_at, ends_at')
+        .eq('cafeteria_id', cafeteriaId);
+
+      if (error) throw error;
+      setMealPeriods(sortMealPeriods(data || []));
+    } catch (error) {
+      console.error('Error fetching meal periods:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to fetch meal periods"
+      });
+    }
+  };
 
   const fetchMenuItems = async () => {
     try {
       const { data, error } = await supabase
         .from('menu_items')
-        .select('*')
+        .select('*, menu_item_meal_periods (meal_period_id)')
+        .eq('cafeteria_id', cafeteriaId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -62,19 +160,73 @@ export default function CafeteriaAdminDashboard() {
     }
   };
 
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const problem = validateMenuImage(file);
+    if (problem) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: problem
+      });
+      return;
+    }
+
+    setImageFile(file);
+    setRemoveImage(false);
+  };
+
+  const clearImage = () => {
+    setImageFile(null);
+    setRemoveImage(true);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+    // Every dish must be filed under a category from the vocabulary
+    if (!newItem.category) {
+      toast({
+        variant: "destructive",
+        title: "Category required",
+        description: "Choose a category for this menu item"
+      });
+      return;
+    }
+
+    setSavingItem(true);
+
+    let uploaded: MenuImagePaths | null = null;
     try {
+      if (imageFile) {
+        uploaded = await uploadMenuImage(cafeteriaId!, imageFile);
+      }
+
+      const previousImages: MenuImagePaths = {
+        image_path: editingItem?.image_path ?? null,
+        thumbnail_path: editingItem?.thumbnail_path ?? null
+      };
+      const images = uploaded ?? (removeImage ? { image_path: null, thumbnail_path: null } : previousImages);
+
       const itemData = {
         name: newItem.name,
         description: newItem.description,
         price: parseFloat(newItem.price),
         category: newItem.category,
-        is_available: newItem.is_available,
-        dietary_tags: newItem.dietary_tags.split(',').map(tag => tag.trim()).filter(tag => tag)
+        is_active: newItem.is_active,
+        dietary_tags: newItem.dietary_tags,
+        calories: parseNutrient(newItem.nutrition.calories, true),
+        protein_g: parseNutrient(newItem.nutrition.protein_g),
+        carbs_g: parseNutrient(newItem.nutrition.carbs_g),
+        fat_g: parseNutrient(newItem.nutrition.fat_g),
+        sodium_mg: parseNutrient(newItem.nutrition.sodium_mg, true),
+        allergens: newItem.allergens,
+        ...images
       };
 
+      let itemId = editingItem?.id;
       if (editingItem) {
         const { error } = await supabase
           .from('menu_items')
@@ -82,49 +234,91 @@ export default function CafeteriaAdminDashboard() {
           .eq('id', editingItem.id);
 
         if (error) throw error;
-        toast({
-          title: "Success",
-          description: "Menu item updated successfully"
-        });
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('menu_items')
-          .insert([itemData]);
+          .insert([{ ...itemData, cafeteria_id: cafeteriaId }])
+          .select('id')
+          .single();
 
         if (error) throw error;
-        toast({
-          title: "Success",
-          description: "Menu item added successfully"
-        });
+        itemId = created.id;
+      }
+
+      // Replace the dish's meal period assignments with the ones ticked in the form
+      const { error: unlinkError } = await supabase
+        .from('menu_item_meal_periods')
+        .delete()
+        .eq('menu_item_id', itemId);
+
+      if (unlinkError) throw unlinkError;
+
+      if (newItem.meal_period_ids.length > 0) {
+        const { error: linkError } = await supabase
+          .from('menu_item_meal_periods')
+          .insert(newItem.meal_period_ids.map(mealPeriodId => ({
+            menu_item_id: itemId,
+            meal_period_id: mealPeriodId
+          })));
+
+        if (linkError) throw linkError;
+      }
+
+      // The old photo is only cleaned up once nothing points at it any more
+      if (images !== previousImages) {
+        removeMenuImages(previousImages).catch(error =>
+          console.error('Error removing replaced menu image:', error)
+        );
       }
 
+      toast({
+        title: "Success",
+        description: editingItem ? "Menu item updated successfully" : "Menu item added successfully"
+      });
+
       resetForm();
-      fetchMenuItems();
+      refreshMenu();
     } catch (error) {
       console.error('Error saving menu item:', error);
+      if (uploaded) {
+        removeMenuImages(uploaded).catch(cleanupError =>
+          console.error('Error removing unsaved menu image:', cleanupError)
+        );
+      }
       toast({
         variant: "destructive",
         title: "Error",
         description: "Failed to save menu item"
       });
+    } finally {
+      setSavingItem(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (item: MenuItemWithNutrition) => {
     try {
       const { error } = await supabase
         .from('menu_items')
         .delete()
-        .eq('id', id);
+        .eq('id', item.id);
 
+      // Dishes that have been sold stay referenced by past transactions, so retire them instead
+      if (error?.code === '23503') {
+        await retireMenuItem(item);
+        return;
+      }
       if (error) throw error;
+
+      removeMenuImages(item).catch(cleanupError =>
+        console.error('Error removing menu image:', cleanupError)
+      );
       
       toast({
         title: "Success",
         description: "Menu item deleted successfully"
       });
       
-      fetchMenuItems();
+      refreshMenu();
     } catch (error) {
       console.error('Error deleting menu item:', error);
       toast({
@@ -135,48 +329,81 @@ export default function CafeteriaAdminDashboard() {
     }
   };
 
-  const toggleAvailability = async (id: string, isAvailable: boolean) => {
+  const retireMenuItem = async (item: MenuItemWithNutrition) => {
+    const { error } = await supabase
+      .from('menu_items')
+      .update({ is_active: false })
+      .eq('id', item.id);
+
+    if (error) throw error;
+
+    toast({
+      title: "Dish retired",
+      description: `${item.name} has sales history, so it was made inactive instead of deleted. Past orders still show it.`
+    });
+
+    refreshMenu();
+  };
+
+  const toggleActive = async (id: string, isActive: boolean) => {
     try {
       const { error } = await supabase
         .from('menu_items')
-        .update({ is_available: !isAvailable })
+        .update({ is_active: !isActive })
         .eq('id', id);
 
       if (error) throw error;
-      fetchMenuItems();
+      refreshMenu();
     } catch (error) {
-      console.error('Error updating availability:', error);
+      console.error('Error updating menu item:', error);
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Failed to update availability"
+        description: "Failed to update menu item"
       });
     }
   };
 
+  const refreshMenu = () => {
+    fetchMenuItems();
+    setPlannerRefresh(count => count + 1);
+  };
+
   const resetForm = () => {
     setNewItem({
       name: '',
       description: '',
       price: '',
       category: '',
-      dietary_tags: '',
-      is_available: true
+      dietary_tags: [],
+      is_active: true,
+      meal_period_ids: [],
+      nutrition: EMPTY_NUTRITION,
+      allergens: []
     });
+    setImageFile(null);
+    setRemoveImage(false);
     setIsAddingItem(false);
     setEditingItem(null);
   };
 
-  const startEdit = (item: MenuItem) => {
+  const startEdit = (item: MenuItemWithNutrition) => {
     setEditingItem(item);
     setNewItem({
       name: item.name,
       description: item.description || '',
       price: item.price.toString(),
       category: item.category,
-      dietary_tags: item.dietary_tags?.join(', ') || '',
-      is_available: item.is_available
+      dietary_tags: item.dietary_tags || [],
+      is_active: item.is_active,
+      meal_period_ids: item.menu_item_meal_periods.map(link => link.meal_period_id),
+      nutrition: Object.fromEntries(
+        NUTRIENTS.map(({ key }) => [key, item[key]?.toString() ?? ''])
+      ) as Record<Nutrient, string>,
+      allergens: item.allergens || []
     });
+    setImageFile(null);
+    setRemoveImage(false);
     setIsAddingItem(true);
   };
 
@@ -195,12 +422,46 @@ export default function CafeteriaAdminDashboard() {
           <ChefHat className="h-6 w-6" />
           <h1 className="text-3xl font-bold">Cafeteria Management</h1>
         </div>
-        <Button onClick={() => setIsAddingItem(true)} className="flex items-center space-x-2">
-          <Plus className="h-4 w-4" />
-          <span>Add Menu Item</span>
-        </Button>
+        <div className="flex items-center space-x-2">
+          {cafeterias.length > 1 && (
+            <Select
+              value={cafeteriaId ?? undefined}
+              onValueChange={(value) => {
+                resetForm();
+                setCafeteriaId(value);
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select dining hall" />
+              </SelectTrigger>
+              <SelectContent>
+                {cafeterias.map((cafeteria) => (
+                  <SelectItem key={cafeteria.id} value={cafeteria.id}>
+                    {cafeteria.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            onClick={() => setIsAddingItem(true)}
+            className="flex items-center space-x-2"
+            disabled={!cafeteriaId}
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Menu Item</span>
+          </Button>
+        </div>
       </div>
 
+      {cafeterias.length === 0 && (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            You are not assigned to any dining hall yet. Ask a system administrator for access.
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -214,12 +475,12 @@ export default function CafeteriaAdminDashboard() {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Available Today</CardTitle>
+            <CardTitle className="text-sm font-medium">Active Dishes</CardTitle>
             <TrendingUp className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {menuItems.filter(item => item.is_available).length}
+              {menuItems.filter(item => item.is_active).length}
             </div>
           </CardContent>
         </Card>
@@ -276,43 +537,172 @@ export default function CafeteriaAdminDashboard() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="image">Photo</Label>
+                <div className="flex items-center space-x-4">
+                  {imagePreview ? (
+                    <img src={imagePreview} alt="New photo preview" className="h-24 w-24 rounded-md object-cover" />
+                  ) : (
+                    <MenuItemImage
+                      path={removeImage ? null : editingItem?.thumbnail_path}
+                      alt={newItem.name}
+                      className="h-24 w-24 rounded-md"
+                    />
+                  )}
+                  <div className="flex flex-col space-y-2">
+                    <Button type="button" variant="outline" size="sm" asChild>
+                      <label htmlFor="image" className="flex items-center space-x-2 cursor-pointer">
+                        <ImagePlus className="h-4 w-4" />
+                        <span>{imagePreview || (editingItem?.image_path && !removeImage) ? 'Replace photo' : 'Upload photo'}</span>
+                      </label>
+                    </Button>
+                    {(imagePreview || (editingItem?.image_path && !removeImage)) && (
+                      <Button type="button" variant="ghost" size="sm" className="flex items-center space-x-2" onClick={clearImage}>
+                        <X className="h-4 w-4" />
+                        <span>Remove photo</span>
+                      </Button>
+                    )}
+                  </div>
+                  <input
+                    id="image"
+                    type="file"
+                    accept={MENU_IMAGE_TYPES.join(',')}
+                    className="hidden"
+                    onChange={handleImageChange}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">JPEG, PNG or WebP up to 5 MB</p>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="category">Category</Label>
-                  <Select value={newItem.category} onValueChange={(value) => setNewItem({...newItem, category: value})}>
-                    <SelectTrigger>
+                  <Select
+                    name="category"
+                    value={newItem.category}
+                    onValueChange={(value) => setNewItem({...newItem, category: value})}
+                    required
+                  >
+                    <SelectTrigger id="category">
                       <SelectValue placeholder="Select category" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="appetizer">Appetizer</SelectItem>
-                      <SelectItem value="main">Main Course</SelectItem>
-                      <SelectItem value="dessert">Dessert</SelectItem>
-                      <SelectItem value="beverage">Beverage</SelectItem>
-                      <SelectItem value="snack">Snack</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
-                <div>
-                  <Label htmlFor="dietary_tags">Dietary Tags (comma-separated)</Label>
-                  <Input
-                    id="dietary_tags"
-                    value={newItem.dietary_tags}
-                    onChange={(e) => setNewItem({...newItem, dietary_tags: e.target.value})}
-                    placeholder="vegetarian, gluten-free, vegan"
-                  />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Dietary Tags</Label>
+                <div className="flex flex-wrap gap-4">
+                  {dietaryTags.map((tag) => (
+                    <div key={tag.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`dietary-tag-${tag.id}`}
+                        checked={newItem.dietary_tags.includes(tag.id)}
+                        onCheckedChange={(checked) => setNewItem({
+                          ...newItem,
+                          dietary_tags: checked
+                            ? [...newItem.dietary_tags, tag.id]
+                            : newItem.dietary_tags.filter(id => id !== tag.id)
+                        })}
+                      />
+                      <Label htmlFor={`dietary-tag-${tag.id}`} className="font-normal">
+                        {tag.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Nutrition (per serving)</Label>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {NUTRIENTS.map(({ key, label, unit }) => (
+                    <div key={key}>
+                      <Label htmlFor={key} className="text-xs font-normal text-muted-foreground">
+                        {label} ({unit})
+                      </Label>
+                      <Input
+                        id={key}
+                        type="number"
+                        min="0"
+                        step={key === 'calories' || key === 'sodium_mg' ? '1' : '0.1'}
+                        value={newItem.nutrition[key]}
+                        onChange={(e) => setNewItem({
+                          ...newItem,
+                          nutrition: { ...newItem.nutrition, [key]: e.target.value }
+                        })}
+                      />
+                    </div>
+                  ))}
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Contains Allergens</Label>
+                <div className="flex flex-wrap gap-4">
+                  {ALLERGENS.map((allergen) => (
+                    <div key={allergen.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`allergen-${allergen.value}`}
+                        checked={newItem.allergens.includes(allergen.value)}
+                        onCheckedChange={(checked) => setNewItem({
+                          ...newItem,
+                          allergens: checked
+                            ? [...newItem.allergens, allergen.value]
+                            : newItem.allergens.filter(value => value !== allergen.value)
+                        })}
+                      />
+                      <Label htmlFor={`allergen-${allergen.value}`} className="font-normal">
+                        {allergen.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {mealPeriods.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Served At</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {mealPeriods.map((period) => (
+                      <div key={period.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`meal-period-${period.id}`}
+                          checked={newItem.meal_period_ids.includes(period.id)}
+                          onCheckedChange={(checked) => setNewItem({
+                            ...newItem,
+                            meal_period_ids: checked
+                              ? [...newItem.meal_period_ids, period.id]
+                              : newItem.meal_period_ids.filter(id => id !== period.id)
+                          })}
+                        />
+                        <Label htmlFor={`meal-period-${period.id}`} className="font-normal">
+                          {period.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Leave all unticked to serve it all day</p>
+                </div>
+              )}
+
               <div className="flex items-center space-x-2">
                 <Switch
-                  checked={newItem.is_available}
-                  onCheckedChange={(checked) => setNewItem({...newItem, is_available: checked})}
+                  checked={newItem.is_active}
+                  onCheckedChange={(checked) => setNewItem({...newItem, is_active: checked})}
                 />
-                <Label>Available today</Label>
+                <Label>Active (can be scheduled)</Label>
               </div>
 
               <div className="flex space-x-2">
-                <Button type="submit">
+                <Button type="submit" disabled={savingItem}>
                   {editingItem ? 'Update Item' : 'Add Item'}
                 </Button>
                 <Button type="button" variant="outline" onClick={resetForm}>
@@ -324,31 +714,68 @@ export default function CafeteriaAdminDashboard() {
         </Card>
       )}
 
+      {cafeteriaId && (
+        <MealPeriodSettings
+          cafeteriaId={cafeteriaId}
+          periods={mealPeriods}
+          // Removing a period also unlinks it from dishes
+          onSaved={() => {
+            fetchMealPeriods();
+            fetchMenuItems();
+          }}
+        />
+      )}
+
+      {cafeteriaId && (
+        <WeeklyMenuPlanner
+          cafeteriaId={cafeteriaId}
+          timeZone={selectedCafeteria?.time_zone}
+          dishes={menuItems.filter(item => item.is_active)}
+          refreshToken={plannerRefresh}
+        />
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>Menu Items</CardTitle>
-          <CardDescription>Manage your menu items and their availability</CardDescription>
+          <CardTitle>Dish Catalog</CardTitle>
+          <CardDescription>Dishes your kitchen can serve; schedule them onto days in the planner above</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
             {menuItems.map((item) => (
               <div key={item.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <MenuItemImage path={item.thumbnail_path} alt={item.name} className="h-16 w-16 rounded-md mr-4 shrink-0" />
                 <div className="flex-1">
                   <div className="flex items-center space-x-2 mb-2">
                     <h3 className="font-semibold">{item.name}</h3>
-                    <Badge variant={item.is_available ? "default" : "secondary"}>
-                      {item.is_available ? "Available" : "Unavailable"}
+                    <Badge variant={item.is_active ? "default" : "secondary"}>
+                      {item.is_active ? "Active" : "Retired"}
                     </Badge>
-                    <Badge variant="outline">{item.category}</Badge>
+                    <Badge variant="outline">{getCategoryLabel(item.category)}</Badge>
+                    {mealPeriods
+                      .filter(period => item.menu_item_meal_periods.some(link => link.meal_period_id === period.id))
+                      .map(period => (
+                        <Badge key={period.id} variant="outline">{period.name}</Badge>
+                      ))}
                   </div>
                   <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
+                  {(hasNutrition(item) || item.allergens?.length > 0) && (
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {NUTRIENTS
+                        .filter(({ key }) => item[key] !== null)
+                        .map(({ key }) => formatNutrient(key, Number(item[key])))
+                        .join(' · ')}
+                      {hasNutrition(item) && item.allergens?.length > 0 && ' · '}
+                      {item.allergens?.length > 0 && `Contains ${item.allergens.map(getAllergenLabel).join(', ')}`}
+                    </p>
+                  )}
                   <div className="flex items-center space-x-4">
                     <span className="text-lg font-bold text-primary">${item.price}</span>
                     {item.dietary_tags?.length > 0 && (
                       <div className="flex space-x-1">
-                        {item.dietary_tags.map((tag, index) => (
-                          <Badge key={index} variant="secondary" className="text-xs">
-                            {tag}
+                        {item.dietary_tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" className="text-xs">
+                            {getTagLabel(tag)}
                           </Badge>
                         ))}
                       </div>
@@ -357,8 +784,8 @@ export default function CafeteriaAdminDashboard() {
                 </div>
                 <div className="flex items-center space-x-2">
                   <Switch
-                    checked={item.is_available}
-                    onCheckedChange={() => toggleAvailability(item.id, item.is_available)}
+                    checked={item.is_active}
+                    onCheckedChange={() => toggleActive(item.id, item.is_active)}
                   />
                   <Button
                     variant="outline"
@@ -370,7 +797,7 @@ export default function CafeteriaAdminDashboard() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handleDelete(item.id)}
+                    onClick={() => handleDelete(item)}
                   >
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -380,6 +807,8 @@ export default function CafeteriaAdminDashboard() {
           </div>
         </CardContent>
       </Card>
+
+      {cafeteriaId && <MenuReviewsPanel cafeteriaId={cafeteriaId} />}
     </div>
   );
 }
\ No newline at end of file
@@ -1,21 +1,125 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useCafeterias } from '@/hooks/useCafeterias';
+import { useCart } from '@/hooks/useCart';
+import { useMenuVocabulary } from '@/hooks/useMenuVocabulary';
+import {
+  describeBudgetOverrun,
+  getBudgetOverrun,
+  getBudgetPeriod,
+  getCarryIn,
+  getRemainingDailyBudget,
+  getRemainingPeriodBudget,
+  getTightestBudget,
+  isBudgetOverrunMessage,
+  sumAmounts,
+  type BudgetStanding,
+  type EnforcementMode
+} from '@/lib/budget';
+import {
+  addCalendarDays,
+  campusTimeToDate,
+  getCampusDate,
+  getCampusDayStart,
+  getCampusTime,
+  isOnCampusDate
+} from '@/lib/dates';
+import {
+  formatServingWindow,
+  getCurrentMealPeriod,
+  isMealPeriodClosed,
+  isServedAfter,
+  sortMealPeriods,
+  type MealPeriod
+} from '@/lib/mealPeriods';
+import { conflictsWithDiet, getDietaryConflicts, type DietaryProfile } from '@/lib/dietary';
+import {
+  DEFAULT_MENU_FILTERS,
+  MENU_SORTS,
+  applyMenuFilters,
+  hasActiveFilters,
+  readMenuFilters,
+  writeMenuFilters,
+  type MenuFilters,
+  type MenuSort
+} from '@/lib/menuFilters';
+import { HISTORY_DAYS, recommendMeal, type MealSlot } from '@/lib/recommendations';
+import { LOW_STOCK_THRESHOLD, getPortionsLeft, isStockOnlyChange, type LiveOffering } from '@/lib/stock';
+import { NUTRIENTS, formatNutrient, getAllergenLabel, hasNutrition, type Nutrition } from '@/lib/nutrition';
 import { toast } from '@/components/ui/use-toast';
-import { ShoppingCart, Lightbulb } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { ShoppingCart, Lightbulb, MapPin, CalendarDays, Clock, Search, ArrowUpDown, X, Heart } from 'lucide-react';
+import CartPanel from '@/components/CartPanel';
+import FavoritesStrip, { type FavoriteDish } from '@/components/FavoritesStrip';
+import DailyNutritionSummary from '@/components/DailyNutritionSummary';
+import MenuItemImage from '@/components/MenuItemImage';
+import StarRating from '@/components/StarRating';
 
-interface MenuItem {
+interface MenuItem extends Nutrition {
   id: string;
+  offering_id: string;
   name: string;
   description: string;
   price: number;
   category: string;
+  meal_slot: MealSlot;
   dietary_tags: string[];
+  allergens: string[];
+  thumbnail_path: string | null;
+  // Empty when the dish is served all day
+  meal_period_ids: string[];
+  // Null when the offering isn't portion-limited
+  portions_left: number | null;
 }
 
+interface MenuOffering {
+  id: string;
+  price_override: number | null;
+  portion_count: number | null;
+  portions_sold: number;
+  menu_items: Omit<MenuItem, 'offering_id' | 'meal_slot' | 'meal_period_ids' | 'portions_left'> & {
+    menu_categories: { slot: string } | null;
+    menu_item_meal_periods: { meal_period_id: string }[];
+  };
+}
+
+// Students can browse and pre-order this many days ahead, including today
+const UPCOMING_DAYS = 7;
+
+// A day's offering is shown as its catalog dish, priced for that day
+const toMenuItem = (offering: MenuOffering): MenuItem => {
+  const { id, price_override, menu_items: { menu_categories, menu_item_meal_periods, ...dish } } = offering;
+  return {
+    ...dish,
+    offering_id: id,
+    meal_slot: menu_categories?.slot === 'main' ? 'main' : 'side',
+    price: Number(price_override ?? dish.price),
+    meal_period_ids: menu_item_meal_periods.map(link => link.meal_period_id),
+    portions_left: getPortionsLeft(offering)
+  };
+};
+
+const isSoldOut = (item: MenuItem) => item.portions_left === 0;
+
 interface Recommendation {
   id: string;
   menu_item_ids: string[];
@@ -27,40 +131,281 @@ const Menu = () => {
   const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
   const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
   const [loading, setLoading] = useState(true);
-  const [purchaseLoading, setPurchaseLoading] = useState<string | null>(null);
+  // Every active budget with what's left in its period; checkout is held to all of them
+  const [budgetStandings, setBudgetStandings] = useState<BudgetStanding[]>([]);
+  const [confirmOverBudget, setConfirmOverBudget] = useState(false);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [pickupTime, setPickupTime] = useState('');
+  const [cafeteriaId, setCafeteriaId] = useState<string | null>(null);
+  const [serviceDate, setServiceDate] = useState<string | null>(null);
+  const [mealPeriods, setMealPeriods] = useState<MealPeriod[]>([]);
+  const [popularity, setPopularity] = useState<Record<string, number>>({});
+  const [ratings, setRatings] = useState<Record<string, { average: number; count: number }>>({});
+  const [menuChangedAt, setMenuChangedAt] = useState<number | null>(null);
+  const [stockChange, setStockChange] = useState<(LiveOffering & { id: string }) | null>(null);
+  const [ordersPlaced, setOrdersPlaced] = useState(0);
+  const [favorites, setFavorites] = useState<FavoriteDish[]>([]);
+  const [lastOrder, setLastOrder] = useState<{ menu_item_id: string; quantity: number }[]>([]);
+  const [dietProfile, setDietProfile] = useState<DietaryProfile>({ preferences: null, allergies: null });
+  const [showAllItems, setShowAllItems] = useState(false);
   const { user } = useAuth();
+  const { cafeterias, loading: cafeteriasLoading } = useCafeterias();
+  const { getCategoryLabel, getTagLabel } = useMenuVocabulary();
+  const cart = useCart<MenuItem>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The meal period being served now; shown until the student picks a period themselves
+  const [suggestedPeriod, setSuggestedPeriod] = useState('all');
+  const filters = readMenuFilters(searchParams, { ...DEFAULT_MENU_FILTERS, period: suggestedPeriod });
+
+  const updateFilters = (changes: Partial<MenuFilters>, replace = false) => {
+    setSearchParams(params => writeMenuFilters(params, changes), { replace });
+  };
+
+  const selectedCafeteria = cafeterias.find(cafeteria => cafeteria.id === cafeteriaId);
+  const today = getCampusDate(new Date(), selectedCafeteria?.time_zone);
+  const menuDate = serviceDate ?? today;
+  const isPreorder = menuDate !== today;
+  // Nothing has closed yet on a future day
+  const servingTime = isPreorder ? '00:00' : getCampusTime(new Date(), selectedCafeteria?.time_zone);
+  const upcomingDates = Array.from({ length: UPCOMING_DAYS }, (_, i) => addCalendarDays(today, i));
+
+  const getDayLabel = (date: string) => {
+    if (date === today) return 'Today';
+    if (date === addCalendarDays(today, 1)) return 'Tomorrow';
+    return format(parseISO(date), 'EEEE');
+  };
+
+  useEffect(() => {
+    if (!cafeteriasLoading) {
+      selectDefaultCafeteria();
+    }
+  }, [user, cafeteriasLoading]);
+
+  useEffect(() => {
+    if (cafeteriaId) {
+      fetchMenuData();
+    }
+  }, [cafeteriaId, serviceDate]);
+
+  // Admins can change availability, prices and stock at any time, so keep the menu live
+  useEffect(() => {
+    if (!cafeteriaId) return;
+
+    const markChanged = () => setMenuChangedAt(Date.now());
+    const channel = supabase
+      .channel(`menu-${cafeteriaId}-${menuDate}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'menu_items', filter: `cafeteria_id=eq.${cafeteriaId}` },
+        markChanged
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'menu_offerings', filter: `cafeteria_id=eq.${cafeteriaId}` },
+        (payload) => {
+          const previous = payload.old as Partial<LiveOffering>;
+          const changed = payload.new as LiveOffering & { id: string };
+          if (previous.offered_on !== menuDate && changed.offered_on !== menuDate) return;
+
+          // Sales happen constantly; they only move portions and never warrant a full reload
+          if (payload.eventType === 'UPDATE' && isStockOnlyChange(previous, changed)) {
+            setStockChange(changed);
+          } else {
+            markChanged();
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [cafeteriaId, menuDate]);
+
+  useEffect(() => {
+    if (menuChangedAt) {
+      refreshMenu();
+    }
+  }, [menuChangedAt]);
 
   useEffect(() => {
-    fetchMenuData();
-  }, [user]);
+    if (stockChange) {
+      applyStockChange(stockChange);
+    }
+  }, [stockChange]);
+
+  useEffect(() => {
+    if (user && cafeteriaId) {
+      fetchFavorites();
+    }
+  }, [user, cafeteriaId]);
+
+  useEffect(() => {
+    if (user && cafeteriaId) {
+      fetchLastOrder();
+    }
+  }, [user, cafeteriaId, ordersPlaced]);
+
+  const selectDefaultCafeteria = async () => {
+    if (cafeterias.length === 0) {
+      setLoading(false);
+      return;
+    }
+
+    let defaultId: string | null = null;
+    if (user) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('default_cafeteria_id, dietary_preferences, allergies')
+        .eq('user_id', user.id)
+        .maybeSingle();
+      defaultId = profile?.default_cafeteria_id ?? null;
+      setDietProfile({
+        preferences: profile?.dietary_preferences ?? null,
+        allergies: profile?.allergies ?? null
+      });
+    }
+
+    setCafeteriaId(
+      cafeterias.some(cafeteria => cafeteria.id === defaultId) ? defaultId : cafeterias[0].id
+    );
+  };
+
+  const handleCafeteriaChange = async (id: string) => {
+    if (id === cafeteriaId) return;
+
+    // A cart can only be checked out at one dining hall
+    if (cart.lines.length > 0) {
+      cart.clearCart();
+      toast({
+        title: "Cart cleared",
+        description: "Your cart was emptied because you switched dining halls"
+      });
+    }
+
+    setLoading(true);
+    // Categories and meal periods differ between dining halls
+    updateFilters({ category: 'all', tag: 'all', period: undefined });
+    setCafeteriaId(id);
+
+    if (user) {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ default_cafeteria_id: id })
+        .eq('user_id', user.id);
+
+      if (error) console.error('Error saving default cafeteria:', error);
+    }
+  };
+
+  const handleServiceDateChange = (date: string) => {
+    if (date === menuDate) return;
+
+    // A cart is checked out for a single service day
+    if (cart.lines.length > 0) {
+      cart.clearCart();
+      toast({
+        title: "Cart cleared",
+        description: "Your cart was emptied because you switched days"
+      });
+    }
+
+    setLoading(true);
+    setPickupTime('');
+    updateFilters({ category: 'all', period: undefined });
+    setServiceDate(date === today ? null : date);
+  };
+
+  // Dishes still on offer at the selected dining hall on the chosen day
+  const loadMenuItems = async (periods: MealPeriod[]) => {
+    const { data: offerings, error: menuError } = await supabase
+      .from('menu_offerings')
+      .select(`
+        id,
+        price_override,
+        portion_count,
+        portions_sold,
+        menu_items!inner (
+          id,
+          name,
+          description,
+          price,
+          category,
+          dietary_tags,
+          calories,
+          protein_g,
+          carbs_g,
+          fat_g,
+          sodium_mg,
+          allergens,
+          thumbnail_path,
+          menu_categories (
+            slot
+          ),
+          menu_item_meal_periods (
+            meal_period_id
+          )
+        )
+      `)
+      .eq('menu_items.cafeteria_id', cafeteriaId)
+      .eq('menu_items.is_active', true)
+      .eq('is_available', true)
+      .eq('offered_on', menuDate);
+
+    if (menuError) throw menuError;
+
+    // Dishes whose serving windows have all closed are no longer on offer today
+    return (offerings || [])
+      .map(toMenuItem)
+      .filter(item => isServedAfter(item.meal_period_ids, periods, servingTime));
+  };
 
   const fetchMenuData = async () => {
     try {
-      // Fetch menu items
-      const { data: items, error: menuError } = await supabase
-        .from('menu_items')
-        .select('*')
-        .eq('is_available', true)
-        .eq('available_date', new Date().toISOString().split('T')[0]);
+      const { data: periods, error: periodsError } = await supabase
+        .from('meal_periods')
+        .select('id, name, starts_at, ends_at')
+        .eq('cafeteria_id', cafeteriaId);
+
+      if (periodsError) throw periodsError;
+      const sortedPeriods = sortMealPeriods(periods || []);
+      setMealPeriods(sortedPeriods);
+
+      const items = await loadMenuItems(sortedPeriods);
+      setMenuItems(items);
+
+      // Only applies while the URL names no period, so shared links keep theirs
+      setSuggestedPeriod(isPreorder ? 'all' : getCurrentMealPeriod(sortedPeriods, servingTime)?.id ?? 'all');
+
+      const { data: popularDishes, error: popularityError } = await supabase
+        .rpc('menu_item_popularity', { cafeteria_uuid: cafeteriaId });
 
-      if (menuError) throw menuError;
-      setMenuItems(items || []);
+      if (popularityError) throw popularityError;
+      setPopularity(Object.fromEntries((popularDishes || []).map(dish => [dish.menu_item_id, dish.order_count])));
 
-      // Fetch today's recommendation
+      const { data: ratedDishes, error: ratingsError } = await supabase
+        .rpc('menu_item_ratings', { cafeteria_uuid: cafeteriaId });
+
+      if (ratingsError) throw ratingsError;
+      setRatings(Object.fromEntries((ratedDishes || []).map(dish => [
+        dish.menu_item_id,
+        { average: Number(dish.average_rating), count: dish.review_count }
+      ])));
+
+      // Fetch the day's recommendation, then recompute it against what's been spent since
       if (user) {
         const { data: rec, error: recError } = await supabase
           .from('meal_recommendations')
           .select('*')
           .eq('user_id', user.id)
-          .eq('recommended_date', new Date().toISOString().split('T')[0])
+          .eq('recommended_date', menuDate)
           .maybeSingle();
 
         if (recError && recError.code !== 'PGRST116') throw recError;
         setRecommendation(rec);
 
-        // Generate recommendation if none exists
-        if (!rec && items?.length) {
-          generateRecommendation(items);
+        if (items.length) {
+          generateRecommendation(items.filter(item => !isSoldOut(item)));
         }
       }
     } catch (error) {
@@ -75,89 +420,448 @@ const Menu = () => {
     }
   };
 
+  // Reload the menu after a live change without resetting the student's filters
+  const refreshMenu = async () => {
+    try {
+      const items = await loadMenuItems(mealPeriods);
+      setMenuItems(items);
+      syncCart(items);
+
+      if (user && items.length) {
+        generateRecommendation(items.filter(item => !isSoldOut(item)));
+      }
+    } catch (error) {
+      console.error('Error refreshing menu:', error);
+    }
+  };
+
+  // Patch one offering's portions in place; the recommendation is left as it was
+  const applyStockChange = (offering: LiveOffering & { id: string }) => {
+    const items = menuItems.map(item =>
+      item.offering_id === offering.id ? { ...item, portions_left: getPortionsLeft(offering) } : item
+    );
+    setMenuItems(items);
+    syncCart(items);
+  };
+
+  // Bring cart lines in line with the latest menu and tell the student what changed
+  const syncCart = (items: MenuItem[]) => {
+    const changes: string[] = [];
+
+    cart.lines.forEach(({ item, quantity }) => {
+      const latest = items.find(menuItem => menuItem.id === item.id);
+
+      if (!latest || isSoldOut(latest)) {
+        cart.removeItem(item.id);
+        changes.push(`${item.name} is no longer available and was removed`);
+        return;
+      }
+
+      if (latest.price !== item.price) {
+        changes.push(`${item.name} is now ${formatPrice(latest.price)}`);
+      }
+
+      if (latest.portions_left !== null && quantity > latest.portions_left) {
+        cart.updateQuantity(item.id, latest.portions_left);
+        changes.push(`Only ${latest.portions_left} ${item.name} left, so your quantity was reduced`);
+      }
+
+      cart.replaceItem(latest);
+    });
+
+    if (changes.length > 0) {
+      toast({
+        title: "Your cart was updated",
+        description: changes.join('. ')
+      });
+    }
+  };
+
   const generateRecommendation = async (items: MenuItem[]) => {
     try {
-      // Get user's active budget
-      const { data: budget } = await supabase
+      // Get user's active budgets, newest first
+      const { data: budgets } = await supabase
         .from('budgets')
         .select('*')
         .eq('user_id', user!.id)
         .eq('is_active', true)
+        .order('created_at', { ascending: false });
+
+      if (!budgets || budgets.length === 0) {
+        setBudgetStandings([]);
+        return;
+      }
+
+      // A pre-order draws on the budget of the day it is for, not today's
+      const timeZone = selectedCafeteria?.time_zone;
+      const asOf = isPreorder ? getCampusDayStart(menuDate, timeZone) : new Date();
+
+      const standings = await Promise.all(budgets.map(async (budget) => {
+        const period = getBudgetPeriod(budget, asOf, timeZone);
+        const isCurrentPeriod = period.startDate === getBudgetPeriod(budget, new Date(), timeZone).startDate;
+
+        let carryIn = 0;
+        if (budget.rollover_policy !== 'none' && isCurrentPeriod) {
+          const { data: history, error: historyError } = await supabase
+            .rpc('sync_budget_periods', { budget_uuid: budget.id });
+
+          if (historyError) throw historyError;
+          carryIn = getCarryIn(history);
+        }
+
+        const { data: periodTransactions, error: transError } = await supabase
+          .from('transactions')
+          .select('amount, transaction_date')
+          .eq('user_id', user!.id)
+          .gte('transaction_date', period.start.toISOString())
+          .lt('transaction_date', period.end.toISOString());
+
+        if (transError) throw transError;
+
+        return {
+          budget,
+          carryIn,
+          periodTransactions: periodTransactions || [],
+          budget_type: budget.budget_type,
+          enforcement_mode: budget.enforcement_mode as EnforcementMode,
+          remaining: getRemainingPeriodBudget(budget, sumAmounts(periodTransactions), carryIn)
+        };
+      }));
+
+      setBudgetStandings(standings);
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('dietary_preferences, allergies')
+        .eq('user_id', user!.id)
         .maybeSingle();
 
-      if (!budget) return;
+      // What the student has bought and rated is what the recommendation learns from
+      const [{ data: history, error: historyError }, { data: reviews, error: reviewsError }] = await Promise.all([
+        supabase
+          .from('transactions')
+          .select('menu_item_id, quantity, transaction_date, menu_items (category)')
+          .eq('user_id', user!.id)
+          .gte('transaction_date', new Date(asOf.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString()),
+        supabase
+          .from('menu_item_reviews')
+          .select('menu_item_id, rating')
+          .eq('user_id', user!.id)
+      ]);
 
-      // Simple recommendation logic: find items within budget
-      const dailyBudget = budget.budget_type === 'daily' ? budget.amount : budget.amount / 7;
-      const affordable = items.filter(item => item.price <= dailyBudget);
-      
-      if (affordable.length === 0) return;
+      if (historyError) throw historyError;
+      if (reviewsError) throw reviewsError;
 
-      // Recommend items that fit within budget
-      const recommended = affordable.slice(0, 3);
-      const totalCost = recommended.reduce((sum, item) => sum + item.price, 0);
+      // The newest budget paces the day; includes anything already pre-ordered for that day.
+      // No day's share can exceed what the tightest budget has left.
+      const { budget, carryIn, periodTransactions } = standings[0];
+      const spentOnDay = sumAmounts(
+        periodTransactions.filter(t => isOnCampusDate(t.transaction_date, menuDate, timeZone))
+      );
+      const remaining = Math.min(
+        getRemainingDailyBudget(budget, spentOnDay, carryIn, asOf, timeZone),
+        getTightestBudget(standings)!.remaining
+      );
 
-      const { error } = await supabase
+      const recommended = recommendMeal(items, {
+        remainingBudget: remaining,
+        dietaryPreferences: profile?.dietary_preferences,
+        allergies: profile?.allergies,
+        history: (history || []).map(({ menu_items, ...purchase }) => ({
+          ...purchase,
+          category: menu_items?.category ?? ''
+        })),
+        ratings: Object.fromEntries((reviews || []).map(review => [review.menu_item_id, review.rating])),
+        asOf
+      });
+
+      const nextRecommendation = {
+        menu_item_ids: recommended ? recommended.items.map(item => item.id) : [],
+        total_estimated_cost: recommended ? recommended.totalCost : 0,
+        reason: recommended
+          ? recommended.reason
+          : `Nothing on ${isPreorder ? `${getDayLabel(menuDate)}'s` : "today's"} menu fits your remaining $${remaining.toFixed(2)}`
+      };
+
+      // One row per user per day: overwrite it so it tracks that day's purchases
+      const { data: saved, error } = await supabase
         .from('meal_recommendations')
-        .insert({
-          user_id: user!.id,
-          recommended_date: new Date().toISOString().split('T')[0],
-          menu_item_ids: recommended.map(item => item.id),
-          total_estimated_cost: totalCost,
-          reason: `Based on your ${budget.budget_type} budget of $${budget.amount}`
-        });
+        .upsert(
+          {
+            user_id: user!.id,
+            recommended_date: menuDate,
+            ...nextRecommendation
+          },
+          { onConflict: 'user_id,recommended_date' }
+        )
+        .select()
+        .single();
 
-      if (!error) {
-        setRecommendation({
-          id: 'temp',
-          menu_item_ids: recommended.map(item => item.id),
-          total_estimated_cost: totalCost,
-          reason: `Based on your ${budget.budget_type} budget of $${budget.amount}`
-        });
-      }
+      if (error) throw error;
+      setRecommendation(saved);
     } catch (error) {
       console.error('Error generating recommendation:', error);
     }
   };
 
-  const handlePurchase = async (item: MenuItem) => {
-    if (!user) return;
-    
-    setPurchaseLoading(item.id);
-    
+  const fetchFavorites = async () => {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
+        .from('menu_item_favorites')
+        .select('menu_items!inner (id, name, thumbnail_path)')
+        .eq('user_id', user!.id)
+        .eq('menu_items.cafeteria_id', cafeteriaId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setFavorites((data || []).map(favorite => favorite.menu_items));
+    } catch (error) {
+      console.error('Error fetching favorites:', error);
+    }
+  };
+
+  // The lines of the student's most recent purchase at this dining hall
+  const fetchLastOrder = async () => {
+    try {
+      const { data, error } = await supabase
         .from('transactions')
-        .insert({
-          user_id: user.id,
-          menu_item_id: item.id,
-          amount: item.price,
-          quantity: 1
-        });
+        .select('order_id, menu_item_id, quantity, menu_items!inner (cafeteria_id)')
+        .eq('user_id', user!.id)
+        .eq('menu_items.cafeteria_id', cafeteriaId)
+        .order('created_at', { ascending: false })
+        .limit(20);
 
       if (error) throw error;
+      const latestOrderId = data?.[0]?.order_id;
+      setLastOrder(
+        (data || [])
+          .filter(line => line.order_id === latestOrderId)
+          .map(({ menu_item_id, quantity }) => ({ menu_item_id, quantity }))
+      );
+    } catch (error) {
+      console.error('Error fetching last order:', error);
+    }
+  };
+
+  const setFavorite = async (menuItemId: string, favorite: boolean) => {
+    try {
+      const { error } = favorite
+        ? await supabase
+            .from('menu_item_favorites')
+            .insert([{ user_id: user!.id, menu_item_id: menuItemId }])
+        : await supabase
+            .from('menu_item_favorites')
+            .delete()
+            .eq('user_id', user!.id)
+            .eq('menu_item_id', menuItemId);
+
+      if (error) throw error;
+      fetchFavorites();
+    } catch (error) {
+      console.error('Error updating favorites:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update favorites",
+        variant: "destructive"
+      });
+    }
+  };
 
+  const isFavorite = (itemId: string) => favorites.some(favorite => favorite.id === itemId);
+
+  // Refill the cart with the last order, skipping whatever isn't available on the chosen day
+  const handleOrderAgain = () => {
+    const added: string[] = [];
+    const skipped: string[] = [];
+
+    lastOrder.forEach(({ menu_item_id, quantity }) => {
+      const item = menuItems.find(menuItem => menuItem.id === menu_item_id);
+      if (!item || isSoldOut(item)) {
+        skipped.push(menu_item_id);
+        return;
+      }
+
+      const available = item.portions_left === null
+        ? quantity
+        : Math.min(quantity, item.portions_left - getCartQuantity(item.id));
+      if (available <= 0) {
+        skipped.push(menu_item_id);
+        return;
+      }
+
+      cart.addItem(item, available);
+      added.push(item.name);
+    });
+
+    const dayLabel = isPreorder ? getDayLabel(menuDate) : 'today';
+    if (added.length === 0) {
       toast({
-        title: "Purchase recorded!",
-        description: `${item.name} - $${item.price.toFixed(2)}`
+        title: "Nothing to reorder",
+        description: `None of the dishes from your last order are available ${dayLabel}`,
+        variant: "destructive"
       });
+      return;
+    }
+
+    toast({
+      title: "Added your last order",
+      description: skipped.length > 0
+        ? `${added.join(', ')}. ${skipped.length} dish${skipped.length === 1 ? " isn't" : "es aren't"} available ${dayLabel}.`
+        : added.join(', ')
+    });
+  };
+
+  const getCartQuantity = (itemId: string) =>
+    cart.lines.find(line => line.item.id === itemId)?.quantity ?? 0;
+
+  const warnPortionsLeft = (item: MenuItem) => {
+    toast({
+      title: "Not enough left",
+      description: `Only ${item.portions_left} ${item.name} left`,
+      variant: "destructive"
+    });
+  };
+
+  const handleAddToCart = (item: MenuItem) => {
+    if (item.portions_left !== null && getCartQuantity(item.id) >= item.portions_left) {
+      warnPortionsLeft(item);
+      return;
+    }
+
+    cart.addItem(item);
+    toast({
+      title: "Added to cart",
+      description: `${item.name} - $${item.price.toFixed(2)}`
+    });
+  };
+
+  const handleUpdateQuantity = (itemId: string, quantity: number) => {
+    const item = menuItems.find(menuItem => menuItem.id === itemId);
+    if (item && item.portions_left !== null && quantity > item.portions_left) {
+      warnPortionsLeft(item);
+      return;
+    }
+
+    cart.updateQuantity(itemId, quantity);
+  };
+
+  const handleCheckout = () => {
+    if (!user || cart.lines.length === 0) return;
+
+    if (pickupTime && campusTimeToDate(menuDate, pickupTime, selectedCafeteria?.time_zone) < new Date()) {
+      toast({
+        title: "Pickup time has passed",
+        description: "Choose a pickup time later today or leave it blank",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const overrun = getBudgetOverrun(budgetStandings, cart.total);
+    if (overrun) {
+      if (overrun.enforcement_mode === 'block') {
+        toast({
+          title: "Budget limit reached",
+          description: describeBudgetOverrun(overrun.overBy, overrun.budget_type),
+          variant: "destructive"
+        });
+        return;
+      }
+
+      if (overrun.enforcement_mode === 'confirm') {
+        setConfirmOverBudget(true);
+        return;
+      }
+
+      toast({
+        title: "Over budget",
+        description: describeBudgetOverrun(overrun.overBy, overrun.budget_type)
+      });
+    }
+
+    placeOrder();
+  };
+
+  const placeOrder = async () => {
+    setCheckingOut(true);
+
+    try {
+      const timeZone = selectedCafeteria?.time_zone;
+      const pickupAt = pickupTime
+        ? campusTimeToDate(menuDate, pickupTime, timeZone).toISOString()
+        : undefined;
+
+      const { data: order, error } = await supabase.rpc('checkout_cart', {
+        cart_items: cart.lines.map(({ item, quantity }) => ({
+          offering_id: item.offering_id,
+          quantity
+        })),
+        pickup_at: pickupAt,
+        service_date: menuDate
+      });
+
+      // A blocking budget can still refuse the order if spending changed since the menu loaded
+      if (error && isBudgetOverrunMessage(error.message)) {
+        toast({
+          title: "Budget limit reached",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Prices and availability are checked server-side; surface why a line was rejected
+      if (error) throw new Error(error.message);
+
+      toast({
+        title: isPreorder ? `Pre-order placed for ${format(parseISO(menuDate), 'EEE, MMM d')}!` : "Order placed!",
+        description: `${cart.itemCount} item${cart.itemCount !== 1 ? 's' : ''} - $${Number(order.total_amount).toFixed(2)}`
+      });
+
+      // Reflect the portions just bought without waiting for a reload
+      const remainingItems = menuItems.map(item =>
+        item.portions_left === null
+          ? item
+          : { ...item, portions_left: Math.max(item.portions_left - getCartQuantity(item.id), 0) }
+      );
+      setMenuItems(remainingItems);
+
+      cart.clearCart();
+      setPickupTime('');
+      setOrdersPlaced(count => count + 1);
+      generateRecommendation(remainingItems.filter(item => !isSoldOut(item)));
     } catch (error) {
-      console.error('Error recording purchase:', error);
+      console.error('Error checking out cart:', error);
       toast({
         title: "Error",
-        description: "Failed to record purchase",
+        description: error instanceof Error
+          ? `${error.message}. Nothing was charged.`
+          : "Failed to place order. Nothing was charged.",
         variant: "destructive"
       });
     } finally {
-      setPurchaseLoading(null);
+      setCheckingOut(false);
     }
   };
 
+  const overBudget = getBudgetOverrun(budgetStandings, cart.total);
+
   const getRecommendedItems = () => {
     if (!recommendation) return [];
     return menuItems.filter(item => recommendation.menu_item_ids.includes(item.id));
   };
 
+  const categories = Array.from(new Set(menuItems.map(item => item.category))).sort();
+  const tags = Array.from(new Set(menuItems.flatMap(item => item.dietary_tags))).sort();
+  // Dishes that clash with the student's preferences or allergies stay hidden unless asked for
+  const conflictingCount = menuItems.filter(item => conflictsWithDiet(item, dietProfile)).length;
+  const visibleItems = applyMenuFilters(
+    menuItems.filter(item => showAllItems || !conflictsWithDiet(item, dietProfile)),
+    filters,
+    popularity,
+    Object.fromEntries(Object.entries(ratings).map(([id, { average }]) => [id, average]))
+  );
+
   const formatPrice = (price: number) => `$${price.toFixed(2)}`;
 
   if (loading) {
@@ -174,23 +878,242 @@ const Menu = () => {
   return (
     <div className="space-y-6">
       <div>
-        <h1 className="text-3xl font-bold">Today's Menu</h1>
-        <p className="text-muted-foreground">Fresh meals available now</p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">
+              {isPreorder ? `Menu for ${format(parseISO(menuDate), 'EEEE, MMM d')}` : "Today's Menu"}
+            </h1>
+            <p className="text-muted-foreground">
+              {isPreorder ? 'Pre-order now, charged to that day\'s budget' : 'Fresh meals available now'}
+              {selectedCafeteria ? ` at ${selectedCafeteria.name}` : ''}
+            </p>
+          </div>
+          {cafeterias.length > 1 && (
+            <div className="flex items-center space-x-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              <Select value={cafeteriaId ?? undefined} onValueChange={handleCafeteriaChange}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder="Choose a dining hall" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cafeterias.map((cafeteria) => (
+                    <SelectItem key={cafeteria.id} value={cafeteria.id}>
+                      {cafeteria.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
       </div>
 
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {upcomingDates.map((date) => (
+            <Button
+              key={date}
+              variant={date === menuDate ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleServiceDateChange(date)}
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              {getDayLabel(date)}
+              {date !== today && <span className="ml-1 opacity-70">{format(parseISO(date), 'MMM d')}</span>}
+            </Button>
+          ))}
+        </div>
+        {mealPeriods.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={filters.period === 'all' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => updateFilters({ period: 'all' })}
+            >
+              All day
+            </Button>
+            {mealPeriods.map((period) => {
+              const closed = !isPreorder && isMealPeriodClosed(period, servingTime);
+              return (
+                <Button
+                  key={period.id}
+                  variant={filters.period === period.id ? 'secondary' : 'ghost'}
+                  size="sm"
+                  disabled={closed}
+                  onClick={() => updateFilters({ period: period.id })}
+                >
+                  <Clock className="h-4 w-4 mr-2" />
+                  {period.name}
+                  <span className="ml-1 opacity-70">{closed ? 'Closed' : formatServingWindow(period)}</span>
+                </Button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {user && (favorites.length > 0 || lastOrder.length > 0) && (
+        <FavoritesStrip
+          favorites={favorites}
+          orderableItems={menuItems.filter(item => !isSoldOut(item))}
+          dayLabel={isPreorder ? getDayLabel(menuDate) : 'today'}
+          lastOrderSize={lastOrder.length}
+          disabled={checkingOut}
+          onAdd={handleAddToCart}
+          onRemoveFavorite={(id) => setFavorite(id, false)}
+          onOrderAgain={handleOrderAgain}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-48">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Search dishes"
+            value={filters.q}
+            onChange={(e) => updateFilters({ q: e.target.value }, true)}
+          />
+        </div>
+        {categories.length > 1 && (
+          <Select value={filters.category} onValueChange={(category) => updateFilters({ category })}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="All categories" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category} value={category}>
+                  {getCategoryLabel(category)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {tags.length > 0 && (
+          <Select value={filters.tag} onValueChange={(tag) => updateFilters({ tag })}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="Any dietary tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any dietary tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  {getTagLabel(tag)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            className="w-24"
+            placeholder="Min $"
+            value={filters.minPrice}
+            onChange={(e) => updateFilters({ minPrice: e.target.value }, true)}
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.5"
+            className="w-24"
+            placeholder="Max $"
+            value={filters.maxPrice}
+            onChange={(e) => updateFilters({ maxPrice: e.target.value }, true)}
+          />
+        </div>
+        <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as MenuSort })}>
+          <SelectTrigger className="w-48">
+            <ArrowUpDown className="h-4 w-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MENU_SORTS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => updateFilters({ q: '', category: 'all', tag: 'all', minPrice: '', maxPrice: '' })}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Clear filters
+          </Button>
+        )}
+        {conflictingCount > 0 && (
+          <div className="flex items-center space-x-2">
+            <Switch id="show-all-items" checked={showAllItems} onCheckedChange={setShowAllItems} />
+            <Label htmlFor="show-all-items" className="font-normal">
+              Show dishes that don't suit my diet ({conflictingCount})
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {cart.lines.length > 0 && (
+        <CartPanel
+          lines={cart.lines}
+          total={cart.total}
+          budget={getTightestBudget(budgetStandings)}
+          dayLabel={isPreorder ? getDayLabel(menuDate) : 'today'}
+          checkingOut={checkingOut}
+          pickupTime={pickupTime}
+          minPickupTime={isPreorder ? undefined : servingTime}
+          onPickupTimeChange={setPickupTime}
+          onUpdateQuantity={handleUpdateQuantity}
+          onRemove={cart.removeItem}
+          onCheckout={handleCheckout}
+        />
+      )}
+
+      {user && (
+        <DailyNutritionSummary
+          date={menuDate}
+          dayLabel={isPreorder ? getDayLabel(menuDate) : 'today'}
+          timeZone={selectedCafeteria?.time_zone}
+          refreshToken={ordersPlaced}
+        />
+      )}
+
+      <AlertDialog open={confirmOverBudget} onOpenChange={setConfirmOverBudget}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Go over your budget?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {overBudget && `${describeBudgetOverrun(overBudget.overBy, overBudget.budget_type)}. `}
+              Do you still want to place it?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep shopping</AlertDialogCancel>
+            <AlertDialogAction onClick={placeOrder}>Place order anyway</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {recommendation && getRecommendedItems().length > 0 && (
         <Card className="border-primary/20 bg-primary/5">
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <Lightbulb className="h-5 w-5 text-primary" />
-              <span>Today's Recommendations</span>
+              <span>{isPreorder ? `Recommendations for ${getDayLabel(menuDate)}` : "Today's Recommendations"}</span>
             </CardTitle>
             <CardDescription>{recommendation.reason}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
               {getRecommendedItems().map((item) => (
-                <Card key={item.id} className="border-primary/30">
+                <Card key={item.id} className="border-primary/30 overflow-hidden">
+                  <MenuItemImage path={item.thumbnail_path} alt={item.name} className="h-32 w-full" />
                   <CardHeader className="pb-3">
                     <div className="flex justify-between items-start">
                       <div>
@@ -204,18 +1127,18 @@ const Menu = () => {
                     <div className="flex flex-wrap gap-1">
                       {item.dietary_tags.map((tag) => (
                         <Badge key={tag} variant="outline" className="text-xs">
-                          {tag}
+                          {getTagLabel(tag)}
                         </Badge>
                       ))}
                     </div>
                     <Button
-                      onClick={() => handlePurchase(item)}
-                      disabled={purchaseLoading === item.id}
+                      onClick={() => handleAddToCart(item)}
+                      disabled={checkingOut}
                       className="w-full"
                       size="sm"
                     >
                       <ShoppingCart className="h-4 w-4 mr-2" />
-                      {purchaseLoading === item.id ? 'Recording...' : 'Purchase'}
+                      Add to Cart
                     </Button>
                   </CardContent>
                 </Card>
@@ -231,45 +1154,101 @@ const Menu = () => {
       )}
 
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {menuItems.map((item) => (
-          <Card key={item.id}>
+        {visibleItems.map((item) => (
+          <Card key={item.id} className="overflow-hidden">
+            <MenuItemImage path={item.thumbnail_path} alt={item.name} className="h-40 w-full" />
             <CardHeader className="pb-3">
               <div className="flex justify-between items-start">
                 <div>
                   <CardTitle className="text-lg">{item.name}</CardTitle>
                   <CardDescription>{item.description}</CardDescription>
                 </div>
-                <Badge variant="secondary">{formatPrice(item.price)}</Badge>
+                <div className="flex items-center space-x-2">
+                  {user && (
+                    <button
+                      type="button"
+                      title={isFavorite(item.id) ? 'Remove from favorites' : 'Add to favorites'}
+                      className={isFavorite(item.id) ? 'text-primary' : 'text-muted-foreground hover:text-primary'}
+                      onClick={() => setFavorite(item.id, !isFavorite(item.id))}
+                    >
+                      <Heart className={`h-5 w-5 ${isFavorite(item.id) ? 'fill-current' : ''}`} />
+                    </button>
+                  )}
+                  <Badge variant="secondary">{formatPrice(item.price)}</Badge>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="w-fit">
+                  {getCategoryLabel(item.category)}
+                </Badge>
+                {getDietaryConflicts(item, dietProfile, getTagLabel).map((conflict) => (
+                  <Badge key={conflict} variant="destructive">{conflict}</Badge>
+                ))}
+                {isSoldOut(item) ? (
+                  <Badge variant="destructive">Sold out</Badge>
+                ) : item.portions_left !== null && item.portions_left <= LOW_STOCK_THRESHOLD && (
+                  <Badge variant="destructive">Only {item.portions_left} left</Badge>
+                )}
               </div>
-              <Badge variant="outline" className="w-fit">
-                {item.category}
-              </Badge>
             </CardHeader>
             <CardContent className="space-y-3">
+              {ratings[item.id] && (
+                <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                  <StarRating value={ratings[item.id].average} />
+                  <span>
+                    {ratings[item.id].average.toFixed(1)} ({ratings[item.id].count} review{ratings[item.id].count === 1 ? '' : 's'})
+                  </span>
+                </div>
+              )}
               <div className="flex flex-wrap gap-1">
                 {item.dietary_tags.map((tag) => (
                   <Badge key={tag} variant="outline" className="text-xs">
-                    {tag}
+                    {getTagLabel(tag)}
                   </Badge>
                 ))}
               </div>
+              {hasNutrition(item) && (
+                <p className="text-xs text-muted-foreground">
+                  {NUTRIENTS
+                    .filter(({ key }) => item[key] !== null)
+                    .map(({ key }) => formatNutrient(key, Number(item[key])))
+                    .join(' · ')}
+                </p>
+              )}
+              {item.allergens.length > 0 && (
+                <p className="text-xs font-medium">
+                  Contains: {item.allergens.map(getAllergenLabel).join(', ')}
+                </p>
+              )}
               <Button
-                onClick={() => handlePurchase(item)}
-                disabled={purchaseLoading === item.id}
+                onClick={() => handleAddToCart(item)}
+                disabled={checkingOut || isSoldOut(item)}
                 className="w-full"
               >
                 <ShoppingCart className="h-4 w-4 mr-2" />
-                {purchaseLoading === item.id ? 'Recording...' : 'Purchase'}
+                {isSoldOut(item) ? 'Sold Out' : isPreorder ? 'Pre-order' : 'Add to Cart'}
               </Button>
             </CardContent>
           </Card>
         ))}
       </div>
 
+      {menuItems.length > 0 && visibleItems.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-8">
+            <p className="text-muted-foreground">No dishes match your search and filters.</p>
+          </CardContent>
+        </Card>
+      )}
+
       {menuItems.length === 0 && (
         <Card>
           <CardContent className="text-center py-8">
-            <p className="text-muted-foreground">No menu items available today.</p>
+            <p className="text-muted-foreground">
+              {isPreorder
+                ? `Nothing has been planned for ${getDayLabel(menuDate)} yet. Check back later.`
+                : 'No menu items available today.'}
+            </p>
           </CardContent>
         </Card>
       )}
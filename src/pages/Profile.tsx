@@ -8,34 +8,57 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/components/ui/use-toast';
+import { useMenuVocabulary } from '@/hooks/useMenuVocabulary';
+import {
+  ALLERGENS,
+  NUTRIENTS,
+  isNutrientLimit,
+  toNutritionGoals,
+  type Nutrient,
+  type NutritionGoalColumns
+} from '@/lib/nutrition';
 import { User, Settings } from 'lucide-react';
 
 interface Profile {
   id: string;
   display_name: string;
   dietary_preferences: string[];
+  allergies: string[];
 }
 
-const DIETARY_OPTIONS = [
-  'vegetarian',
-  'vegan',
-  'gluten-free',
-  'dairy-free',
-  'nut-free',
-  'low-carb',
-  'keto',
-  'halal',
-  'kosher',
-  'organic'
-];
+const EMPTY_GOALS: Record<Nutrient, string> = {
+  calories: '',
+  protein_g: '',
+  carbs_g: '',
+  fat_g: '',
+  sodium_mg: ''
+};
+
+const toGoalInputs = (profile: Partial<NutritionGoalColumns>) => {
+  const goals = toNutritionGoals(profile);
+  return Object.fromEntries(
+    NUTRIENTS.map(({ key }) => [key, goals[key]?.toString() ?? ''])
+  ) as Record<Nutrient, string>;
+};
+
+// Goals must be positive in the database, so a blank or zero entry means "no goal"
+const parseGoal = (value: string, wholeNumber = false) => {
+  const goal = wholeNumber ? Math.round(parseFloat(value)) : parseFloat(value);
+  return goal > 0 ? goal : null;
+};
 
 const Profile = () => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [displayName, setDisplayName] = useState('');
   const [dietaryPreferences, setDietaryPreferences] = useState<string[]>([]);
+  const [allergies, setAllergies] = useState<string[]>([]);
+  const [nutritionGoals, setNutritionGoals] = useState(EMPTY_GOALS);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const { user } = useAuth();
+  const { dietaryTags, getTagLabel } = useMenuVocabulary();
+  // Preferences use the same tag ids cafeterias put on their dishes
+  const preferenceOptions = dietaryTags.filter(tag => tag.is_preference);
 
   useEffect(() => {
     if (user) {
@@ -57,6 +80,8 @@ const Profile = () => {
         setProfile(data);
         setDisplayName(data.display_name || '');
         setDietaryPreferences(data.dietary_preferences || []);
+        setAllergies(data.allergies || []);
+        setNutritionGoals(toGoalInputs(data));
       } else {
         // Create profile if it doesn't exist
         const { data: newProfile, error: createError } = await supabase
@@ -74,6 +99,7 @@ const Profile = () => {
         setProfile(newProfile);
         setDisplayName(newProfile.display_name || '');
         setDietaryPreferences(newProfile.dietary_preferences || []);
+        setAllergies(newProfile.allergies || []);
       }
     } catch (error) {
       console.error('Error fetching profile:', error);
@@ -93,11 +119,21 @@ const Profile = () => {
 
     setSaving(true);
     try {
+      const goals = {
+        calorie_goal: parseGoal(nutritionGoals.calories, true),
+        protein_goal_g: parseGoal(nutritionGoals.protein_g),
+        carbs_goal_g: parseGoal(nutritionGoals.carbs_g),
+        fat_goal_g: parseGoal(nutritionGoals.fat_g),
+        sodium_goal_mg: parseGoal(nutritionGoals.sodium_mg, true)
+      };
+
       const { error } = await supabase
         .from('profiles')
         .update({
           display_name: displayName,
-          dietary_preferences: dietaryPreferences
+          dietary_preferences: dietaryPreferences,
+          allergies,
+          ...goals
         })
         .eq('id', profile.id);
 
@@ -112,7 +148,8 @@ const Profile = () => {
       setProfile({
         ...profile,
         display_name: displayName,
-        dietary_preferences: dietaryPreferences
+        dietary_preferences: dietaryPreferences,
+        allergies
       });
     } catch (error) {
       console.error('Error updating profile:', error);
@@ -134,6 +171,14 @@ const Profile = () => {
     );
   };
 
+  const toggleAllergy = (allergen: string) => {
+    setAllergies(prev =>
+      prev.includes(allergen)
+        ? prev.filter(a => a !== allergen)
+        : [...prev, allergen]
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -205,18 +250,18 @@ const Profile = () => {
                 Select your dietary preferences to get better meal recommendations
               </p>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {DIETARY_OPTIONS.map((option) => (
-                  <div key={option} className="flex items-center space-x-2">
+                {preferenceOptions.map((option) => (
+                  <div key={option.id} className="flex items-center space-x-2">
                     <Checkbox
-                      id={option}
-                      checked={dietaryPreferences.includes(option)}
-                      onCheckedChange={() => toggleDietaryPreference(option)}
+                      id={option.id}
+                      checked={dietaryPreferences.includes(option.id)}
+                      onCheckedChange={() => toggleDietaryPreference(option.id)}
                     />
                     <Label 
-                      htmlFor={option} 
-                      className="text-sm font-normal capitalize cursor-pointer"
+                      htmlFor={option.id} 
+                      className="text-sm font-normal cursor-pointer"
                     >
-                      {option}
+                      {option.label}
                     </Label>
                   </div>
                 ))}
@@ -226,14 +271,62 @@ const Profile = () => {
                 <div className="flex flex-wrap gap-2 mt-3">
                   <span className="text-sm font-medium">Selected:</span>
                   {dietaryPreferences.map((pref) => (
-                    <Badge key={pref} variant="secondary" className="capitalize">
-                      {pref}
+                    <Badge key={pref} variant="secondary">
+                      {getTagLabel(pref)}
                     </Badge>
                   ))}
                 </div>
               )}
             </div>
 
+            <div className="space-y-4">
+              <Label>Allergies</Label>
+              <p className="text-sm text-muted-foreground">
+                Dishes containing these are hidden from your menu and never recommended
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {ALLERGENS.map((allergen) => (
+                  <div key={allergen.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`allergy-${allergen.value}`}
+                      checked={allergies.includes(allergen.value)}
+                      onCheckedChange={() => toggleAllergy(allergen.value)}
+                    />
+                    <Label
+                      htmlFor={`allergy-${allergen.value}`}
+                      className="text-sm font-normal cursor-pointer"
+                    >
+                      {allergen.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <Label>Daily Nutrition Goals</Label>
+              <p className="text-sm text-muted-foreground">
+                Track what you order against these on the Budget and Analytics pages. Leave blank to skip one.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {NUTRIENTS.map(({ key, label, unit }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`goal-${key}`} className="text-sm font-normal">
+                      {label} ({unit}){isNutrientLimit(key) ? ' limit' : ''}
+                    </Label>
+                    <Input
+                      id={`goal-${key}`}
+                      type="number"
+                      min={key === 'calories' || key === 'sodium_mg' ? '1' : '0.1'}
+                      step={key === 'calories' || key === 'sodium_mg' ? '1' : '0.1'}
+                      value={nutritionGoals[key]}
+                      onChange={(e) => setNutritionGoals({ ...nutritionGoals, [key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
             <Button type="submit" disabled={saving}>
               {saving ? 'Saving...' : 'Save Profile'}
             </Button>
@@ -5,15 +5,21 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Users, Settings, Database } from 'lucide-react';
+import { useCafeterias } from '@/hooks/useCafeterias';
+import MenuVocabularySettings from '@/components/MenuVocabularySettings';
+import TimeZoneSelect from '@/components/TimeZoneSelect';
+import { DEFAULT_CAMPUS_TIME_ZONE, setCampusTimeZone } from '@/lib/dates';
+import { Users, Settings, Database, Building2, Plus, Trash2 } from 'lucide-react';
 
 interface UserWithRole {
   id: string;
   email: string;
   display_name: string;
   role: string;
+  cafeteria_ids: string[];
 }
 
 export default function SystemAdminDashboard() {
@@ -21,7 +27,15 @@ export default function SystemAdminDashboard() {
   const [loading, setLoading] = useState(true);
   const [selectedUser, setSelectedUser] = useState<string>('');
   const [selectedRole, setSelectedRole] = useState<string>('');
+  const [selectedCafeteria, setSelectedCafeteria] = useState<string>('');
+  const [newCafeteria, setNewCafeteria] = useState({
+    name: '',
+    location: '',
+    time_zone: DEFAULT_CAMPUS_TIME_ZONE
+  });
+  const [campusTimeZone, setCampusTimeZoneInput] = useState(DEFAULT_CAMPUS_TIME_ZONE);
   const { toast } = useToast();
+  const { cafeterias, refetch: refetchCafeterias } = useCafeterias({ managedOnly: true });
 
   useEffect(() => {
     fetchUsers();
@@ -37,7 +51,7 @@ export default function SystemAdminDashboard() {
 
       const { data: roles, error: rolesError } = await supabase
         .from('user_roles')
-        .select('user_id, role');
+        .select('user_id, role, cafeteria_id');
       
       if (rolesError) throw rolesError;
 
@@ -47,13 +61,19 @@ export default function SystemAdminDashboard() {
         userMap.set(profile.user_id, {
           id: profile.user_id,
           display_name: profile.display_name,
-          role: 'user'
+          role: 'user',
+          cafeteria_ids: []
         });
       });
 
       roles?.forEach(role => {
-        if (userMap.has(role.user_id)) {
-          userMap.get(role.user_id).role = role.role;
+        const user = userMap.get(role.user_id);
+        if (!user) return;
+        if (role.cafeteria_id) {
+          user.cafeteria_ids.push(role.cafeteria_id);
+        }
+        if (user.role !== 'system_admin') {
+          user.role = role.role;
         }
       });
 
@@ -72,21 +92,28 @@ export default function SystemAdminDashboard() {
 
   const updateUserRole = async () => {
     if (!selectedUser || !selectedRole) return;
+    const isCafeteriaAdmin = selectedRole === 'cafeteria_admin';
+    if (isCafeteriaAdmin && !selectedCafeteria) return;
 
     try {
-      // Delete existing role
-      await supabase
+      // Cafeteria admins can look after several halls, so granting another
+      // hall keeps their existing cafeteria scopes; any other role replaces them all
+      let deleteQuery = supabase
         .from('user_roles')
         .delete()
         .eq('user_id', selectedUser);
+      if (isCafeteriaAdmin) {
+        deleteQuery = deleteQuery.neq('role', 'cafeteria_admin');
+      }
+      await deleteQuery;
 
-      // Insert new role
       const { error } = await supabase
         .from('user_roles')
-        .insert([{
+        .upsert([{
           user_id: selectedUser,
-          role: selectedRole as 'user' | 'cafeteria_admin' | 'system_admin'
-        }]);
+          role: selectedRole as 'user' | 'cafeteria_admin' | 'system_admin',
+          cafeteria_id: isCafeteriaAdmin ? selectedCafeteria : null
+        }], { onConflict: 'user_id,role,cafeteria_id', ignoreDuplicates: true });
 
       if (error) throw error;
 
@@ -98,6 +125,7 @@ export default function SystemAdminDashboard() {
       fetchUsers();
       setSelectedUser('');
       setSelectedRole('');
+      setSelectedCafeteria('');
     } catch (error) {
       console.error('Error updating user role:', error);
       toast({
@@ -108,6 +136,140 @@ export default function SystemAdminDashboard() {
     }
   };
 
+  const revokeCafeteriaAccess = async (userId: string, cafeteriaId: string) => {
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('user_id', userId)
+        .eq('role', 'cafeteria_admin')
+        .eq('cafeteria_id', cafeteriaId);
+
+      if (error) throw error;
+      fetchUsers();
+    } catch (error) {
+      console.error('Error revoking cafeteria access:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to revoke cafeteria access"
+      });
+    }
+  };
+
+  const createCafeteria = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('cafeterias')
+        .insert([{
+          name: newCafeteria.name.trim(),
+          location: newCafeteria.location.trim() || null,
+          time_zone: newCafeteria.time_zone
+        }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Cafeteria added successfully"
+      });
+
+      setNewCafeteria({ name: '', location: '', time_zone: DEFAULT_CAMPUS_TIME_ZONE });
+      refetchCafeterias();
+    } catch (error) {
+      console.error('Error creating cafeteria:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to add cafeteria"
+      });
+    }
+  };
+
+  // Budgets and cafeterias without their own zone follow the campus time zone on both client and server
+  const saveCampusTimeZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('campus_settings')
+        .update({ time_zone: campusTimeZone })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      setCampusTimeZone(campusTimeZone);
+      toast({
+        title: "Success",
+        description: "Campus time zone updated"
+      });
+    } catch (error) {
+      console.error('Error updating campus time zone:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update campus time zone"
+      });
+    }
+  };
+
+  const toggleCafeteriaActive = async (id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('cafeterias')
+        .update({ is_active: !isActive })
+        .eq('id', id);
+
+      if (error) throw error;
+      refetchCafeterias();
+    } catch (error) {
+      console.error('Error updating cafeteria:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update cafeteria"
+      });
+    }
+  };
+
+  // Halls with sales history are refused by the database; closing them is the way to retire them
+  const deleteCafeteria = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('cafeterias')
+        .delete()
+        .eq('id', id);
+
+      if (error?.code === 'P0001') {
+        toast({
+          variant: "destructive",
+          title: "Cannot delete cafeteria",
+          description: error.message
+        });
+        return;
+      }
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Cafeteria deleted successfully"
+      });
+      refetchCafeterias();
+    } catch (error) {
+      console.error('Error deleting cafeteria:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete cafeteria"
+      });
+    }
+  };
+
+  const getCafeteriaName = (id: string) =>
+    cafeterias.find(cafeteria => cafeteria.id === id)?.name || 'Unknown cafeteria';
+
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
       case 'system_admin':
@@ -178,7 +340,7 @@ export default function SystemAdminDashboard() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
               <Label htmlFor="user-select">Select User</Label>
               <Select value={selectedUser} onValueChange={setSelectedUser}>
@@ -209,10 +371,30 @@ export default function SystemAdminDashboard() {
               </Select>
             </div>
 
+            <div>
+              <Label htmlFor="cafeteria-select">Cafeteria</Label>
+              <Select
+                value={selectedCafeteria}
+                onValueChange={setSelectedCafeteria}
+                disabled={selectedRole !== 'cafeteria_admin'}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={selectedRole === 'cafeteria_admin' ? 'Choose a cafeteria' : 'Not applicable'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {cafeterias.map((cafeteria) => (
+                    <SelectItem key={cafeteria.id} value={cafeteria.id}>
+                      {cafeteria.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="flex items-end">
               <Button 
                 onClick={updateUserRole}
-                disabled={!selectedUser || !selectedRole}
+                disabled={!selectedUser || !selectedRole || (selectedRole === 'cafeteria_admin' && !selectedCafeteria)}
                 className="w-full"
               >
                 Update Role
@@ -222,6 +404,99 @@ export default function SystemAdminDashboard() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Building2 className="h-5 w-5" />
+            <span>Cafeterias</span>
+          </CardTitle>
+          <CardDescription>
+            Add dining halls and choose which ones students can order from
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={saveCampusTimeZone} className="flex items-end space-x-2">
+            <div className="flex-1">
+              <Label htmlFor="campus-time-zone">Campus Time Zone</Label>
+              <TimeZoneSelect
+                id="campus-time-zone"
+                value={campusTimeZone}
+                onValueChange={setCampusTimeZoneInput}
+              />
+            </div>
+            <Button type="submit" variant="outline">Save</Button>
+          </form>
+
+          <form onSubmit={createCafeteria} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="cafeteria-name">Name</Label>
+              <Input
+                id="cafeteria-name"
+                value={newCafeteria.name}
+                onChange={(e) => setNewCafeteria({ ...newCafeteria, name: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="cafeteria-location">Location</Label>
+              <Input
+                id="cafeteria-location"
+                value={newCafeteria.location}
+                onChange={(e) => setNewCafeteria({ ...newCafeteria, location: e.target.value })}
+                placeholder="Building or address"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cafeteria-time-zone">Time Zone</Label>
+              <TimeZoneSelect
+                id="cafeteria-time-zone"
+                value={newCafeteria.time_zone}
+                onValueChange={(timeZone) => setNewCafeteria({ ...newCafeteria, time_zone: timeZone })}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button type="submit" className="w-full flex items-center space-x-2">
+                <Plus className="h-4 w-4" />
+                <span>Add Cafeteria</span>
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-3">
+            {cafeterias.map((cafeteria) => (
+              <div key={cafeteria.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{cafeteria.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {[cafeteria.location, cafeteria.time_zone].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor={`cafeteria-active-${cafeteria.id}`} className="text-sm text-muted-foreground">
+                    {cafeteria.is_active ? 'Open' : 'Closed'}
+                  </Label>
+                  <Switch
+                    id={`cafeteria-active-${cafeteria.id}`}
+                    checked={cafeteria.is_active}
+                    onCheckedChange={() => toggleCafeteriaActive(cafeteria.id, cafeteria.is_active)}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title="Delete cafeteria"
+                    onClick={() => deleteCafeteria(cafeteria.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <MenuVocabularySettings />
+
       <Card>
         <CardHeader>
           <CardTitle>All Users</CardTitle>
@@ -237,9 +512,22 @@ export default function SystemAdminDashboard() {
                   <p className="font-medium">{user.display_name || 'Unnamed User'}</p>
                   <p className="text-sm text-muted-foreground">{user.id}</p>
                 </div>
-                <Badge variant={getRoleBadgeVariant(user.role)}>
-                  {user.role.replace('_', ' ').toUpperCase()}
-                </Badge>
+                <div className="flex items-center space-x-2">
+                  {user.cafeteria_ids.map((cafeteriaId) => (
+                    <Badge
+                      key={cafeteriaId}
+                      variant="outline"
+                      className="cursor-pointer"
+                      title="Click to revoke access"
+                      onClick={() => revokeCafeteriaAccess(user.id, cafeteriaId)}
+                    >
+                      {getCafeteriaName(cafeteriaId)} ×
+                    </Badge>
+                  ))}
+                  <Badge variant={getRoleBadgeVariant(user.role)}>
+                    {user.role.replace('_', ' ').toUpperCase()}
+                  </Badge>
+                </div>
               </div>
             ))}
           </div>
@@ -0,0 +1,8 @@
+-- Track when a day's recommendation was last recomputed
+ALTER TABLE public.meal_recommendations
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_meal_recommendations_updated_at
+BEFORE UPDATE ON public.meal_recommendations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Record every line of a cart in one statement so a failed line rolls back the whole checkout
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB)
+RETURNS SETOF public.transactions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.transactions (user_id, menu_item_id, amount, quantity)
+  SELECT
+    auth.uid(),
+    (line->>'menu_item_id')::UUID,
+    (line->>'amount')::DECIMAL(8,2),
+    (line->>'quantity')::INTEGER
+  FROM jsonb_array_elements(cart_items) AS line
+  RETURNING *;
+END;
+$$;
@@ -0,0 +1,78 @@
+-- Create orders table grouping the transaction lines of one purchase
+CREATE TABLE public.orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  total_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'placed' CHECK (status IN ('placed', 'ready', 'completed', 'cancelled')),
+  pickup_time TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transactions
+  ADD COLUMN order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_transactions_order_id ON public.transactions(order_id);
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own orders" ON public.orders FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own orders" ON public.orders FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_orders_updated_at
+BEFORE UPDATE ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Give every existing transaction its own completed order so history stays complete
+DO $$
+DECLARE
+  t RECORD;
+  new_order_id UUID;
+BEGIN
+  FOR t IN SELECT * FROM public.transactions WHERE order_id IS NULL LOOP
+    INSERT INTO public.orders (user_id, total_amount, status, created_at, updated_at)
+    VALUES (t.user_id, t.amount, 'completed', t.transaction_date, t.transaction_date)
+    RETURNING id INTO new_order_id;
+
+    UPDATE public.transactions SET order_id = new_order_id WHERE id = t.id;
+  END LOOP;
+END $$;
+
+-- Checkout now creates the order first and attaches every cart line to it
+DROP FUNCTION IF EXISTS public.checkout_cart(JSONB);
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_order public.orders;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  INSERT INTO public.orders (user_id, total_amount, pickup_time)
+  SELECT auth.uid(), COALESCE(SUM((line->>'amount')::DECIMAL(8,2)), 0), pickup_at
+  FROM jsonb_array_elements(cart_items) AS line
+  RETURNING * INTO new_order;
+
+  INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+  SELECT
+    auth.uid(),
+    new_order.id,
+    (line->>'menu_item_id')::UUID,
+    (line->>'amount')::DECIMAL(8,2),
+    (line->>'quantity')::INTEGER,
+    new_order.created_at
+  FROM jsonb_array_elements(cart_items) AS line;
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Purchases are only recorded through checkout_cart, which prices lines from menu_items
+DROP POLICY IF EXISTS "Users can create their own transactions" ON public.transactions;
+DROP POLICY IF EXISTS "Users can create their own orders" ON public.orders;
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.is_available THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF item.available_date <> CURRENT_DATE THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+    VALUES (buyer, new_order.id, item.id, item.price * line_quantity, line_quantity, new_order.created_at);
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,95 @@
+-- Let each budget choose how hard its limit is enforced at checkout
+ALTER TABLE public.budgets
+  ADD COLUMN enforcement_mode TEXT NOT NULL DEFAULT 'warn'
+  CHECK (enforcement_mode IN ('warn', 'confirm', 'block'));
+
+-- Start of the window a budget's amount applies to
+CREATE OR REPLACE FUNCTION public.budget_period_start(budget public.budgets)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'daily' THEN date_trunc('day', now())
+    ELSE now() - INTERVAL '7 days'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+  active_budget public.budgets;
+  period_spent DECIMAL(10,2);
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.is_available THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF item.available_date <> CURRENT_DATE THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+    VALUES (buyer, new_order.id, item.id, item.price * line_quantity, line_quantity, new_order.created_at);
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  -- Blocking budgets reject the whole order if it pushes spending past the limit
+  FOR active_budget IN
+    SELECT * FROM public.budgets
+    WHERE user_id = buyer AND is_active AND enforcement_mode = 'block'
+  LOOP
+    SELECT COALESCE(SUM(amount), 0) INTO period_spent
+    FROM public.transactions
+    WHERE user_id = buyer AND transaction_date >= public.budget_period_start(active_budget);
+
+    IF period_spent > active_budget.amount THEN
+      RAISE EXCEPTION 'This order exceeds your % budget of $%', active_budget.budget_type, active_budget.amount;
+    END IF;
+  END LOOP;
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,155 @@
+-- Monthly and semester budgets with calendar-aligned periods
+ALTER TABLE public.budgets DROP CONSTRAINT IF EXISTS budgets_budget_type_check;
+ALTER TABLE public.budgets
+  ADD CONSTRAINT budgets_budget_type_check
+  CHECK (budget_type IN ('daily', 'weekly', 'monthly', 'semester'));
+
+-- 0 = Sunday ... 6 = Saturday, matching EXTRACT(DOW) and JavaScript's getDay()
+ALTER TABLE public.budgets
+  ADD COLUMN week_start_day SMALLINT NOT NULL DEFAULT 1 CHECK (week_start_day BETWEEN 0 AND 6),
+  ADD COLUMN period_start DATE,
+  ADD COLUMN period_end DATE;
+
+ALTER TABLE public.budgets
+  ADD CONSTRAINT budgets_semester_period_check
+  CHECK (
+    budget_type <> 'semester'
+    OR (period_start IS NOT NULL AND period_end IS NOT NULL AND period_end >= period_start)
+  );
+
+CREATE OR REPLACE FUNCTION public.budget_period_start(budget public.budgets)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN date_trunc('day', now())
+      - ((EXTRACT(DOW FROM now())::INTEGER - budget.week_start_day + 7) % 7) * INTERVAL '1 day'
+    WHEN 'monthly' THEN date_trunc('month', now())
+    WHEN 'semester' THEN budget.period_start::TIMESTAMP WITH TIME ZONE
+    ELSE date_trunc('day', now())
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_period_end(budget public.budgets)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN public.budget_period_start(budget) + INTERVAL '7 days'
+    WHEN 'monthly' THEN public.budget_period_start(budget) + INTERVAL '1 month'
+    WHEN 'semester' THEN (budget.period_end + 1)::TIMESTAMP WITH TIME ZONE
+    ELSE public.budget_period_start(budget) + INTERVAL '1 day'
+  END;
+$$;
+
+-- Amount a budget's owner has spent within its current period
+CREATE OR REPLACE FUNCTION public.budget_period_spent(budget public.budgets)
+RETURNS DECIMAL(10,2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.transactions
+  WHERE user_id = budget.user_id
+    AND transaction_date >= public.budget_period_start(budget)
+    AND transaction_date < public.budget_period_end(budget);
+$$;
+
+-- Blocking budgets reject the whole order if it pushes spending past the limit
+CREATE OR REPLACE FUNCTION public.enforce_budget_limits(buyer UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_budget public.budgets;
+  period_spent DECIMAL(10,2);
+BEGIN
+  FOR active_budget IN
+    SELECT * FROM public.budgets
+    WHERE user_id = buyer AND is_active AND enforcement_mode = 'block'
+      AND now() >= public.budget_period_start(budgets)
+      AND now() < public.budget_period_end(budgets)
+  LOOP
+    period_spent := public.budget_period_spent(active_budget);
+    IF period_spent > active_budget.amount THEN
+      -- Worded like the menu's own over-budget message so the client can show it as is
+      RAISE EXCEPTION 'This order is $% over your % budget', period_spent - active_budget.amount, active_budget.budget_type;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Only checkout_cart should run the check on behalf of a buyer
+REVOKE EXECUTE ON FUNCTION public.enforce_budget_limits(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.is_available THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF item.available_date <> CURRENT_DATE THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+    VALUES (buyer, new_order.id, item.id, item.price * line_quantity, line_quantity, new_order.created_at);
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,190 @@
+-- Optional rollover of unspent budget into the next period
+ALTER TABLE public.budgets
+  ADD COLUMN rollover_policy TEXT NOT NULL DEFAULT 'none'
+    CHECK (rollover_policy IN ('none', 'carry', 'carry_capped')),
+  ADD COLUMN rollover_cap DECIMAL(10,2) CHECK (rollover_cap >= 0);
+
+-- A semester has no next period to carry into, and a capped carry needs its cap
+ALTER TABLE public.budgets
+  ADD CONSTRAINT budgets_rollover_policy_check
+  CHECK (
+    (rollover_policy = 'none' OR budget_type <> 'semester')
+    AND (rollover_policy <> 'carry_capped' OR rollover_cap IS NOT NULL)
+  );
+
+-- One row per closed period of a rollover budget
+CREATE TABLE public.budget_period_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  budget_id UUID NOT NULL REFERENCES public.budgets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  carry_in DECIMAL(10,2) NOT NULL DEFAULT 0,
+  allowance DECIMAL(10,2) NOT NULL,
+  spent DECIMAL(10,2) NOT NULL DEFAULT 0,
+  carry_out DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (budget_id, period_start)
+);
+
+ALTER TABLE public.budget_period_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own budget history" ON public.budget_period_history FOR SELECT USING (auth.uid() = user_id);
+
+-- Period helpers now take the moment to locate the period for, so past periods can be closed
+DROP FUNCTION IF EXISTS public.budget_period_spent(public.budgets);
+DROP FUNCTION IF EXISTS public.budget_period_end(public.budgets);
+DROP FUNCTION IF EXISTS public.budget_period_start(public.budgets);
+
+CREATE OR REPLACE FUNCTION public.budget_period_start(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN date_trunc('day', as_of)
+      - ((EXTRACT(DOW FROM as_of)::INTEGER - budget.week_start_day + 7) % 7) * INTERVAL '1 day'
+    WHEN 'monthly' THEN date_trunc('month', as_of)
+    WHEN 'semester' THEN budget.period_start::TIMESTAMP WITH TIME ZONE
+    ELSE date_trunc('day', as_of)
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_period_end(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN public.budget_period_start(budget, as_of) + INTERVAL '7 days'
+    WHEN 'monthly' THEN public.budget_period_start(budget, as_of) + INTERVAL '1 month'
+    WHEN 'semester' THEN (budget.period_end + 1)::TIMESTAMP WITH TIME ZONE
+    ELSE public.budget_period_start(budget, as_of) + INTERVAL '1 day'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_period_spent(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DECIMAL(10,2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM public.transactions
+  WHERE user_id = budget.user_id
+    AND transaction_date >= public.budget_period_start(budget, as_of)
+    AND transaction_date < public.budget_period_end(budget, as_of);
+$$;
+
+-- Close every finished period of a rollover budget, carrying unspent money forward
+CREATE OR REPLACE FUNCTION public.sync_budget_periods(budget_uuid UUID)
+RETURNS SETOF public.budget_period_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  budget public.budgets;
+  last_period public.budget_period_history;
+  cursor_at TIMESTAMP WITH TIME ZONE;
+  period_from TIMESTAMP WITH TIME ZONE;
+  period_to TIMESTAMP WITH TIME ZONE;
+  carry DECIMAL(10,2) := 0;
+  spent DECIMAL(10,2);
+  leftover DECIMAL(10,2);
+BEGIN
+  SELECT * INTO budget FROM public.budgets WHERE id = budget_uuid AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Budget not found';
+  END IF;
+
+  IF budget.rollover_policy <> 'none' AND budget.budget_type <> 'semester' THEN
+    SELECT * INTO last_period
+    FROM public.budget_period_history
+    WHERE budget_id = budget.id
+    ORDER BY period_start DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      cursor_at := last_period.period_end;
+      carry := last_period.carry_out;
+    ELSE
+      cursor_at := public.budget_period_start(budget, budget.created_at);
+    END IF;
+
+    LOOP
+      period_from := public.budget_period_start(budget, cursor_at);
+      period_to := public.budget_period_end(budget, cursor_at);
+      EXIT WHEN period_to > now() OR period_to <= cursor_at;
+
+      spent := public.budget_period_spent(budget, cursor_at);
+      leftover := GREATEST(budget.amount + carry - spent, 0);
+      IF budget.rollover_policy = 'carry_capped' THEN
+        leftover := LEAST(leftover, budget.rollover_cap);
+      END IF;
+
+      INSERT INTO public.budget_period_history
+        (budget_id, user_id, period_start, period_end, carry_in, allowance, spent, carry_out)
+      VALUES
+        (budget.id, budget.user_id, period_from, period_to, carry, budget.amount + carry, spent, leftover)
+      ON CONFLICT (budget_id, period_start) DO NOTHING;
+
+      carry := leftover;
+      cursor_at := period_to;
+    END LOOP;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.budget_period_history
+  WHERE budget_id = budget.id
+  ORDER BY period_start DESC;
+END;
+$$;
+
+-- What a budget allows in its current period once carried-over money is added
+CREATE OR REPLACE FUNCTION public.budget_period_allowance(budget public.budgets)
+RETURNS DECIMAL(10,2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT budget.amount + COALESCE((
+    SELECT carry_out
+    FROM public.budget_period_history
+    WHERE budget_id = budget.id AND period_end = public.budget_period_start(budget)
+  ), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_budget_limits(buyer UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_budget public.budgets;
+  allowance DECIMAL(10,2);
+  period_spent DECIMAL(10,2);
+BEGIN
+  FOR active_budget IN
+    SELECT * FROM public.budgets
+    WHERE user_id = buyer AND is_active AND enforcement_mode = 'block'
+      AND now() >= public.budget_period_start(budgets)
+      AND now() < public.budget_period_end(budgets)
+  LOOP
+    IF active_budget.rollover_policy <> 'none' THEN
+      PERFORM public.sync_budget_periods(active_budget.id);
+    END IF;
+
+    allowance := public.budget_period_allowance(active_budget);
+    period_spent := public.budget_period_spent(active_budget);
+    IF period_spent > allowance THEN
+      RAISE EXCEPTION 'This order is $% over your % budget', period_spent - allowance, active_budget.budget_type;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,171 @@
+-- Calendar days follow the campus clock rather than the database's UTC clock. The campus
+-- time zone is kept in this single-row table; the app loads the same row at startup.
+CREATE TABLE public.campus_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  time_zone TEXT NOT NULL DEFAULT 'America/New_York',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.campus_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view campus settings" ON public.campus_settings FOR SELECT USING (true);
+
+CREATE POLICY "System admins can update campus settings"
+ON public.campus_settings
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'system_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'system_admin'));
+
+CREATE TRIGGER update_campus_settings_updated_at
+BEFORE UPDATE ON public.campus_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every AT TIME ZONE on a name Postgres can't resolve fails, so only accept names it knows
+CREATE OR REPLACE FUNCTION public.validate_campus_time_zone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.time_zone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_campus_time_zone
+BEFORE INSERT OR UPDATE OF time_zone ON public.campus_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_campus_time_zone();
+
+INSERT INTO public.campus_settings DEFAULT VALUES;
+
+CREATE OR REPLACE FUNCTION public.campus_time_zone()
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT time_zone FROM public.campus_settings), 'America/New_York');
+$$;
+
+CREATE OR REPLACE FUNCTION public.campus_today(tz TEXT DEFAULT public.campus_time_zone())
+RETURNS DATE
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT (now() AT TIME ZONE tz)::DATE;
+$$;
+
+ALTER TABLE public.menu_items ALTER COLUMN available_date SET DEFAULT public.campus_today();
+ALTER TABLE public.meal_recommendations ALTER COLUMN recommended_date SET DEFAULT public.campus_today();
+
+-- Wall-clock start of a budget's period on campus; start and end are derived from it
+CREATE OR REPLACE FUNCTION public.budget_period_local_start(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  WITH campus AS (
+    SELECT as_of AT TIME ZONE public.campus_time_zone() AS local_now
+  )
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN date_trunc('day', local_now)
+      - ((EXTRACT(DOW FROM local_now)::INTEGER - budget.week_start_day + 7) % 7) * INTERVAL '1 day'
+    WHEN 'monthly' THEN date_trunc('month', local_now)
+    WHEN 'semester' THEN budget.period_start::TIMESTAMP
+    ELSE date_trunc('day', local_now)
+  END
+  FROM campus;
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_period_start(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.budget_period_local_start(budget, as_of) AT TIME ZONE public.campus_time_zone();
+$$;
+
+CREATE OR REPLACE FUNCTION public.budget_period_end(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE budget.budget_type
+    WHEN 'weekly' THEN public.budget_period_local_start(budget, as_of) + INTERVAL '7 days'
+    WHEN 'monthly' THEN public.budget_period_local_start(budget, as_of) + INTERVAL '1 month'
+    WHEN 'semester' THEN (budget.period_end + 1)::TIMESTAMP
+    ELSE public.budget_period_local_start(budget, as_of) + INTERVAL '1 day'
+  END AT TIME ZONE public.campus_time_zone();
+$$;
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.is_available THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF item.available_date <> public.campus_today() THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+    VALUES (buyer, new_order.id, item.id, item.price * line_quantity, line_quantity, new_order.created_at);
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,170 @@
+-- Create cafeterias table for the campus dining halls
+CREATE TABLE public.cafeterias (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  location TEXT,
+  time_zone TEXT NOT NULL DEFAULT public.campus_time_zone(),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cafeterias ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cafeterias" ON public.cafeterias FOR SELECT USING (true);
+
+CREATE POLICY "System admins can manage cafeterias"
+ON public.cafeterias
+FOR ALL
+USING (public.has_role(auth.uid(), 'system_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'system_admin'));
+
+CREATE TRIGGER update_cafeterias_updated_at
+BEFORE UPDATE ON public.cafeterias
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER validate_cafeteria_time_zone
+BEFORE INSERT OR UPDATE OF time_zone ON public.cafeterias
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_campus_time_zone();
+
+-- Existing menu items and cafeteria admins belong to the original dining hall
+INSERT INTO public.cafeterias (name, location) VALUES ('Main Dining Hall', 'Student Union');
+
+ALTER TABLE public.menu_items ADD COLUMN cafeteria_id UUID REFERENCES public.cafeterias(id) ON DELETE CASCADE;
+UPDATE public.menu_items SET cafeteria_id = (SELECT id FROM public.cafeterias WHERE name = 'Main Dining Hall');
+ALTER TABLE public.menu_items ALTER COLUMN cafeteria_id SET NOT NULL;
+
+CREATE INDEX idx_menu_items_cafeteria_date ON public.menu_items(cafeteria_id, available_date);
+
+-- Deleting a dining hall cascades into its menu items, which sold dishes can't follow because
+-- transactions keep pointing at them. Refuse up front with a reason the admin can act on.
+CREATE OR REPLACE FUNCTION public.prevent_deleting_cafeteria_with_sales()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.menu_items m ON m.id = t.menu_item_id
+    WHERE m.cafeteria_id = OLD.id
+  ) THEN
+    RAISE EXCEPTION '% has sales history and cannot be deleted. Close it instead to keep past orders intact.', OLD.name
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER prevent_deleting_cafeteria_with_sales
+BEFORE DELETE ON public.cafeterias
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_deleting_cafeteria_with_sales();
+
+-- Cafeteria admin roles are scoped to one cafeteria each; other roles leave it empty
+ALTER TABLE public.user_roles ADD COLUMN cafeteria_id UUID REFERENCES public.cafeterias(id) ON DELETE CASCADE;
+UPDATE public.user_roles
+SET cafeteria_id = (SELECT id FROM public.cafeterias WHERE name = 'Main Dining Hall')
+WHERE role = 'cafeteria_admin';
+
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_user_id_role_key;
+ALTER TABLE public.user_roles
+  ADD CONSTRAINT user_roles_user_id_role_cafeteria_id_key UNIQUE NULLS NOT DISTINCT (user_id, role, cafeteria_id);
+ALTER TABLE public.user_roles
+  ADD CONSTRAINT user_roles_cafeteria_scope_check CHECK ((role = 'cafeteria_admin') = (cafeteria_id IS NOT NULL));
+
+-- Remember which dining hall a user browses by default
+ALTER TABLE public.profiles
+  ADD COLUMN default_cafeteria_id UUID REFERENCES public.cafeterias(id) ON DELETE SET NULL;
+
+-- Function to check if user may manage a cafeteria's menu
+CREATE OR REPLACE FUNCTION public.is_cafeteria_admin(user_uuid UUID, cafeteria_uuid UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(user_uuid, 'system_admin') OR EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = user_uuid AND role = 'cafeteria_admin' AND cafeteria_id = cafeteria_uuid
+  );
+$$;
+
+DROP POLICY IF EXISTS "Cafeteria admins can manage menu items" ON public.menu_items;
+
+CREATE POLICY "Cafeteria admins can manage their cafeteria's menu items"
+ON public.menu_items
+FOR ALL
+USING (public.is_cafeteria_admin(auth.uid(), cafeteria_id))
+WITH CHECK (public.is_cafeteria_admin(auth.uid(), cafeteria_id));
+
+-- Items are on "today's" menu according to their own cafeteria's clock
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu item %', line->>'menu_item_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = (line->>'menu_item_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item % does not exist', line->>'menu_item_id';
+    END IF;
+
+    IF NOT item.is_available THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF item.available_date <> public.campus_today(
+      (SELECT time_zone FROM public.cafeterias WHERE id = item.cafeteria_id)
+    ) THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, amount, quantity, transaction_date)
+    VALUES (buyer, new_order.id, item.id, item.price * line_quantity, line_quantity, new_order.created_at);
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,111 @@
+-- Create recurring menu items, e.g. "Pizza every Friday", that the weekly planner expands into dated rows
+CREATE TABLE public.recurring_menu_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cafeteria_id UUID NOT NULL REFERENCES public.cafeterias(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  price DECIMAL(10,2) NOT NULL,
+  category TEXT NOT NULL,
+  dietary_tags TEXT[] DEFAULT '{}',
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  starts_on DATE NOT NULL DEFAULT public.campus_today(),
+  ends_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT recurring_menu_items_dates_check CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+ALTER TABLE public.recurring_menu_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Cafeteria admins can manage their recurring menu items"
+ON public.recurring_menu_items
+FOR ALL
+USING (public.is_cafeteria_admin(auth.uid(), cafeteria_id))
+WITH CHECK (public.is_cafeteria_admin(auth.uid(), cafeteria_id));
+
+CREATE TRIGGER update_recurring_menu_items_updated_at
+BEFORE UPDATE ON public.recurring_menu_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Dated rows remember the recurrence that produced them so it is only expanded once per day
+ALTER TABLE public.menu_items
+  ADD COLUMN recurring_item_id UUID REFERENCES public.recurring_menu_items(id) ON DELETE SET NULL;
+
+ALTER TABLE public.menu_items
+  ADD CONSTRAINT menu_items_recurring_item_id_available_date_key UNIQUE (recurring_item_id, available_date);
+
+-- Expand a cafeteria's recurring items into menu rows for every upcoming day in a date range
+CREATE OR REPLACE FUNCTION public.generate_recurring_menu_items(cafeteria_uuid UUID, from_date DATE, to_date DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created INTEGER;
+BEGIN
+  IF NOT public.is_cafeteria_admin(auth.uid(), cafeteria_uuid) THEN
+    RAISE EXCEPTION 'Not allowed to plan this cafeteria''s menu';
+  END IF;
+
+  INSERT INTO public.menu_items (
+    cafeteria_id, recurring_item_id, name, description, price, category, dietary_tags, available_date
+  )
+  SELECT r.cafeteria_id, r.id, r.name, r.description, r.price, r.category, r.dietary_tags, day::DATE
+  FROM public.recurring_menu_items r
+  CROSS JOIN generate_series(
+    GREATEST(from_date, public.campus_today((SELECT time_zone FROM public.cafeterias WHERE id = cafeteria_uuid))),
+    to_date,
+    INTERVAL '1 day'
+  ) AS day
+  WHERE r.cafeteria_id = cafeteria_uuid
+    AND EXTRACT(DOW FROM day) = r.weekday
+    AND day::DATE >= r.starts_on
+    AND (r.ends_on IS NULL OR day::DATE <= r.ends_on)
+  ON CONFLICT (recurring_item_id, available_date) DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$;
+
+-- Copy one week's one-off items forward; recurring items are regenerated rather than copied
+CREATE OR REPLACE FUNCTION public.copy_menu_week(cafeteria_uuid UUID, source_start DATE, target_start DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created INTEGER;
+  shift INTEGER := target_start - source_start;
+BEGIN
+  IF NOT public.is_cafeteria_admin(auth.uid(), cafeteria_uuid) THEN
+    RAISE EXCEPTION 'Not allowed to plan this cafeteria''s menu';
+  END IF;
+
+  IF shift = 0 THEN
+    RAISE EXCEPTION 'Source and target weeks are the same';
+  END IF;
+
+  INSERT INTO public.menu_items (
+    cafeteria_id, name, description, price, category, dietary_tags, is_available, available_date
+  )
+  SELECT m.cafeteria_id, m.name, m.description, m.price, m.category, m.dietary_tags, true, m.available_date + shift
+  FROM public.menu_items m
+  WHERE m.cafeteria_id = cafeteria_uuid
+    AND m.recurring_item_id IS NULL
+    AND m.available_date >= source_start
+    AND m.available_date < source_start + 7
+    AND NOT EXISTS (
+      SELECT 1 FROM public.menu_items existing
+      WHERE existing.cafeteria_id = cafeteria_uuid
+        AND existing.name = m.name
+        AND existing.available_date = m.available_date + shift
+    );
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+
+  created := created + public.generate_recurring_menu_items(cafeteria_uuid, target_start, target_start + 6);
+  RETURN created;
+END;
+$$;
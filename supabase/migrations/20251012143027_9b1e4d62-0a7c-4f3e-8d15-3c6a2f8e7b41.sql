@@ -0,0 +1,256 @@
+-- Split the dish catalog (menu_items) from the days each dish is served (menu_offerings)
+CREATE TABLE public.menu_offerings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  offered_on DATE NOT NULL DEFAULT public.campus_today(),
+  price_override DECIMAL(10,2) CHECK (price_override IS NULL OR price_override >= 0),
+  portion_count INTEGER CHECK (portion_count IS NULL OR portion_count >= 0),
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  recurring_item_id UUID REFERENCES public.recurring_menu_items(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT menu_offerings_menu_item_id_offered_on_key UNIQUE (menu_item_id, offered_on)
+);
+
+CREATE INDEX idx_menu_offerings_offered_on ON public.menu_offerings(offered_on);
+
+ALTER TABLE public.menu_offerings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view menu offerings" ON public.menu_offerings FOR SELECT USING (true);
+
+CREATE POLICY "Cafeteria admins can manage their cafeteria's offerings"
+ON public.menu_offerings
+FOR ALL
+USING (public.is_cafeteria_admin(auth.uid(), (SELECT cafeteria_id FROM public.menu_items WHERE id = menu_item_id)))
+WITH CHECK (public.is_cafeteria_admin(auth.uid(), (SELECT cafeteria_id FROM public.menu_items WHERE id = menu_item_id)));
+
+CREATE TRIGGER update_menu_offerings_updated_at
+BEFORE UPDATE ON public.menu_offerings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rows that repeat a dish on another day collapse onto the first row created for it
+CREATE TEMP TABLE menu_item_dish_map AS
+SELECT
+  id AS old_id,
+  first_value(id) OVER (PARTITION BY cafeteria_id, name ORDER BY created_at, id) AS dish_id
+FROM public.menu_items;
+
+INSERT INTO public.menu_offerings (menu_item_id, offered_on, price_override, is_available, recurring_item_id, created_at)
+SELECT map.dish_id, m.available_date, NULLIF(m.price, dish.price), m.is_available, m.recurring_item_id, m.created_at
+FROM public.menu_items m
+JOIN menu_item_dish_map map ON map.old_id = m.id
+JOIN public.menu_items dish ON dish.id = map.dish_id
+ORDER BY m.created_at
+ON CONFLICT (menu_item_id, offered_on) DO NOTHING;
+
+-- Purchases keep pointing at the dish and additionally record the offering they were bought from
+ALTER TABLE public.transactions
+  ADD COLUMN offering_id UUID REFERENCES public.menu_offerings(id) ON DELETE SET NULL;
+
+UPDATE public.transactions t
+SET menu_item_id = map.dish_id, offering_id = o.id
+FROM menu_item_dish_map map
+JOIN public.menu_items m ON m.id = map.old_id
+JOIN public.menu_offerings o ON o.menu_item_id = map.dish_id AND o.offered_on = m.available_date
+WHERE t.menu_item_id = map.old_id;
+
+UPDATE public.meal_recommendations r
+SET menu_item_ids = ARRAY(
+  SELECT DISTINCT COALESCE(map.dish_id, old.id)
+  FROM unnest(r.menu_item_ids) AS old(id)
+  LEFT JOIN menu_item_dish_map map ON map.old_id = old.id
+)
+WHERE r.menu_item_ids IS NOT NULL;
+
+-- Recurring items schedule a catalog dish instead of carrying their own copy of it
+ALTER TABLE public.recurring_menu_items
+  ADD COLUMN menu_item_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE;
+
+INSERT INTO public.menu_items (cafeteria_id, name, description, price, category, dietary_tags)
+SELECT DISTINCT ON (r.cafeteria_id, r.name) r.cafeteria_id, r.name, r.description, r.price, r.category, r.dietary_tags
+FROM public.recurring_menu_items r
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.menu_items m WHERE m.cafeteria_id = r.cafeteria_id AND m.name = r.name
+);
+
+UPDATE public.recurring_menu_items r
+SET menu_item_id = (
+  SELECT m.id FROM public.menu_items m
+  WHERE m.cafeteria_id = r.cafeteria_id AND m.name = r.name
+  ORDER BY m.created_at, m.id
+  LIMIT 1
+);
+
+ALTER TABLE public.recurring_menu_items
+  ALTER COLUMN menu_item_id SET NOT NULL,
+  DROP COLUMN name,
+  DROP COLUMN description,
+  DROP COLUMN price,
+  DROP COLUMN category,
+  DROP COLUMN dietary_tags;
+
+DELETE FROM public.menu_items m
+USING menu_item_dish_map map
+WHERE map.old_id = m.id AND map.old_id <> map.dish_id;
+
+DROP TABLE menu_item_dish_map;
+
+-- What remains in menu_items is the catalog: no dates, and retired dishes are kept for history
+ALTER TABLE public.menu_items
+  DROP CONSTRAINT menu_items_recurring_item_id_available_date_key,
+  DROP COLUMN recurring_item_id,
+  DROP COLUMN available_date;
+
+ALTER TABLE public.menu_items RENAME COLUMN is_available TO is_active;
+
+CREATE UNIQUE INDEX menu_items_cafeteria_id_name_key ON public.menu_items(cafeteria_id, name);
+
+DROP POLICY IF EXISTS "Anyone can view available menu items" ON public.menu_items;
+
+CREATE POLICY "Anyone can view menu items" ON public.menu_items FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_menu_items(cafeteria_uuid UUID, from_date DATE, to_date DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created INTEGER;
+BEGIN
+  IF NOT public.is_cafeteria_admin(auth.uid(), cafeteria_uuid) THEN
+    RAISE EXCEPTION 'Not allowed to plan this cafeteria''s menu';
+  END IF;
+
+  INSERT INTO public.menu_offerings (menu_item_id, recurring_item_id, offered_on)
+  SELECT r.menu_item_id, r.id, day::DATE
+  FROM public.recurring_menu_items r
+  JOIN public.menu_items dish ON dish.id = r.menu_item_id AND dish.is_active
+  CROSS JOIN generate_series(
+    GREATEST(from_date, public.campus_today((SELECT time_zone FROM public.cafeterias WHERE id = cafeteria_uuid))),
+    to_date,
+    INTERVAL '1 day'
+  ) AS day
+  WHERE r.cafeteria_id = cafeteria_uuid
+    AND EXTRACT(DOW FROM day) = r.weekday
+    AND day::DATE >= r.starts_on
+    AND (r.ends_on IS NULL OR day::DATE <= r.ends_on)
+  ON CONFLICT (menu_item_id, offered_on) DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.copy_menu_week(cafeteria_uuid UUID, source_start DATE, target_start DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created INTEGER;
+  shift INTEGER := target_start - source_start;
+BEGIN
+  IF NOT public.is_cafeteria_admin(auth.uid(), cafeteria_uuid) THEN
+    RAISE EXCEPTION 'Not allowed to plan this cafeteria''s menu';
+  END IF;
+
+  IF shift = 0 THEN
+    RAISE EXCEPTION 'Source and target weeks are the same';
+  END IF;
+
+  INSERT INTO public.menu_offerings (menu_item_id, offered_on, price_override, portion_count)
+  SELECT o.menu_item_id, o.offered_on + shift, o.price_override, o.portion_count
+  FROM public.menu_offerings o
+  JOIN public.menu_items dish ON dish.id = o.menu_item_id
+  WHERE dish.cafeteria_id = cafeteria_uuid
+    AND dish.is_active
+    AND o.recurring_item_id IS NULL
+    AND o.offered_on >= source_start
+    AND o.offered_on < source_start + 7
+  ON CONFLICT (menu_item_id, offered_on) DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+
+  created := created + public.generate_recurring_menu_items(cafeteria_uuid, target_start, target_start + 6);
+  RETURN created;
+END;
+$$;
+
+-- Carts now reference offerings; the charged price honours the day's override
+CREATE OR REPLACE FUNCTION public.checkout_cart(cart_items JSONB, pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  offering public.menu_offerings;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu offering %', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO offering FROM public.menu_offerings WHERE id = (line->>'offering_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu offering % does not exist', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = offering.menu_item_id;
+
+    IF NOT offering.is_available OR NOT item.is_active THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF offering.offered_on <> public.campus_today(
+      (SELECT time_zone FROM public.cafeterias WHERE id = item.cafeteria_id)
+    ) THEN
+      RAISE EXCEPTION '% is not on today''s menu', item.name;
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, offering_id, amount, quantity, transaction_date)
+    VALUES (
+      buyer,
+      new_order.id,
+      item.id,
+      offering.id,
+      COALESCE(offering.price_override, item.price) * line_quantity,
+      line_quantity,
+      new_order.created_at
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id)
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,168 @@
+-- Orders are placed for a service day, which can be later than the day they are placed
+ALTER TABLE public.orders ADD COLUMN service_date DATE;
+
+UPDATE public.orders SET service_date = (created_at AT TIME ZONE public.campus_time_zone())::DATE;
+
+ALTER TABLE public.orders
+  ALTER COLUMN service_date SET NOT NULL,
+  ALTER COLUMN service_date SET DEFAULT public.campus_today();
+
+CREATE INDEX idx_orders_user_service_date ON public.orders(user_id, service_date);
+
+-- Allowance of the period containing as_of; carry-over is only known once the previous period has closed
+DROP FUNCTION IF EXISTS public.budget_period_allowance(public.budgets);
+
+CREATE OR REPLACE FUNCTION public.budget_period_allowance(budget public.budgets, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS DECIMAL(10,2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT budget.amount + COALESCE((
+    SELECT carry_out
+    FROM public.budget_period_history
+    WHERE budget_id = budget.id AND period_end = public.budget_period_start(budget, as_of)
+  ), 0);
+$$;
+
+-- Pre-orders are checked against the budget period of the day they are for
+DROP FUNCTION IF EXISTS public.enforce_budget_limits(UUID);
+
+CREATE OR REPLACE FUNCTION public.enforce_budget_limits(buyer UUID, as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_budget public.budgets;
+  allowance DECIMAL(10,2);
+  period_spent DECIMAL(10,2);
+BEGIN
+  FOR active_budget IN
+    SELECT * FROM public.budgets
+    WHERE user_id = buyer AND is_active AND enforcement_mode = 'block'
+      AND as_of >= public.budget_period_start(budgets, as_of)
+      AND as_of < public.budget_period_end(budgets, as_of)
+  LOOP
+    IF active_budget.rollover_policy <> 'none' THEN
+      PERFORM public.sync_budget_periods(active_budget.id);
+    END IF;
+
+    allowance := public.budget_period_allowance(active_budget, as_of);
+    period_spent := public.budget_period_spent(active_budget, as_of);
+    IF period_spent > allowance THEN
+      RAISE EXCEPTION 'This order is $% over your % budget', period_spent - allowance, active_budget.budget_type;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enforce_budget_limits(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Checkout takes an optional service day; future-day lines are dated on that day so they
+-- reserve its budget and count as committed spending until it arrives
+DROP FUNCTION IF EXISTS public.checkout_cart(JSONB, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  cart_items JSONB,
+  pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  service_date DATE DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  offering public.menu_offerings;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+  tz TEXT;
+  today DATE;
+  order_day DATE := service_date;
+  charged_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu offering %', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO offering FROM public.menu_offerings WHERE id = (line->>'offering_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu offering % does not exist', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = offering.menu_item_id;
+
+    IF NOT offering.is_available OR NOT item.is_active THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    SELECT time_zone INTO tz FROM public.cafeterias WHERE id = item.cafeteria_id;
+    today := public.campus_today(tz);
+    order_day := COALESCE(order_day, today);
+
+    IF order_day < today THEN
+      RAISE EXCEPTION 'Orders cannot be placed for a past day';
+    END IF;
+
+    IF offering.offered_on <> order_day THEN
+      RAISE EXCEPTION '% is not on the menu for %', item.name, to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    IF pickup_at IS NOT NULL AND (pickup_at AT TIME ZONE tz)::DATE <> order_day THEN
+      RAISE EXCEPTION 'Pickup time must be on %', to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    charged_at := CASE
+      WHEN order_day = today THEN new_order.created_at
+      ELSE COALESCE(pickup_at, order_day::TIMESTAMP AT TIME ZONE tz)
+    END;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, offering_id, amount, quantity, transaction_date)
+    VALUES (
+      buyer,
+      new_order.id,
+      item.id,
+      offering.id,
+      COALESCE(offering.price_override, item.price) * line_quantity,
+      line_quantity,
+      charged_at
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id),
+    service_date = order_day
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer, charged_at);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,190 @@
+-- Meal periods (breakfast, lunch, dinner) with each cafeteria's serving window in its local time
+CREATE TABLE public.meal_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cafeteria_id UUID NOT NULL REFERENCES public.cafeterias(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (cafeteria_id, name),
+  CONSTRAINT meal_periods_window_check CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE public.meal_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view meal periods" ON public.meal_periods FOR SELECT USING (true);
+
+CREATE POLICY "Cafeteria admins can manage their meal periods"
+ON public.meal_periods
+FOR ALL
+USING (public.is_cafeteria_admin(auth.uid(), cafeteria_id))
+WITH CHECK (public.is_cafeteria_admin(auth.uid(), cafeteria_id));
+
+CREATE TRIGGER update_meal_periods_updated_at
+BEFORE UPDATE ON public.meal_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Dishes are served in one or more periods; a dish with none is served all day
+CREATE TABLE public.menu_item_meal_periods (
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  meal_period_id UUID NOT NULL REFERENCES public.meal_periods(id) ON DELETE CASCADE,
+  PRIMARY KEY (menu_item_id, meal_period_id)
+);
+
+ALTER TABLE public.menu_item_meal_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view menu item meal periods" ON public.menu_item_meal_periods FOR SELECT USING (true);
+
+CREATE POLICY "Cafeteria admins can manage their menu item meal periods"
+ON public.menu_item_meal_periods
+FOR ALL
+USING (public.is_cafeteria_admin(auth.uid(), (SELECT cafeteria_id FROM public.menu_items WHERE id = menu_item_id)))
+WITH CHECK (public.is_cafeteria_admin(auth.uid(), (SELECT cafeteria_id FROM public.menu_items WHERE id = menu_item_id)));
+
+-- Every cafeteria starts with the usual three periods, which its admins can then adjust
+CREATE OR REPLACE FUNCTION public.create_default_meal_periods()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.meal_periods (cafeteria_id, name, starts_at, ends_at)
+  VALUES
+    (NEW.id, 'Breakfast', '07:00', '10:30'),
+    (NEW.id, 'Lunch', '11:00', '14:30'),
+    (NEW.id, 'Dinner', '17:00', '20:30');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_cafeteria_meal_periods
+AFTER INSERT ON public.cafeterias
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_meal_periods();
+
+INSERT INTO public.meal_periods (cafeteria_id, name, starts_at, ends_at)
+SELECT c.id, p.name, p.starts_at, p.ends_at
+FROM public.cafeterias c
+CROSS JOIN (
+  VALUES
+    ('Breakfast', TIME '07:00', TIME '10:30'),
+    ('Lunch', TIME '11:00', TIME '14:30'),
+    ('Dinner', TIME '17:00', TIME '20:30')
+) AS p(name, starts_at, ends_at);
+
+-- Same-day orders can only include dishes that still have a serving window open
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  cart_items JSONB,
+  pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  service_date DATE DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  offering public.menu_offerings;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+  tz TEXT;
+  today DATE;
+  order_day DATE := service_date;
+  charged_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu offering %', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO offering FROM public.menu_offerings WHERE id = (line->>'offering_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu offering % does not exist', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = offering.menu_item_id;
+
+    IF NOT offering.is_available OR NOT item.is_active THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    SELECT time_zone INTO tz FROM public.cafeterias WHERE id = item.cafeteria_id;
+    today := public.campus_today(tz);
+    order_day := COALESCE(order_day, today);
+
+    IF order_day < today THEN
+      RAISE EXCEPTION 'Orders cannot be placed for a past day';
+    END IF;
+
+    IF offering.offered_on <> order_day THEN
+      RAISE EXCEPTION '% is not on the menu for %', item.name, to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    IF order_day = today AND EXISTS (
+      SELECT 1 FROM public.menu_item_meal_periods WHERE menu_item_id = item.id
+    ) AND NOT EXISTS (
+      SELECT 1
+      FROM public.menu_item_meal_periods link
+      JOIN public.meal_periods period ON period.id = link.meal_period_id
+      WHERE link.menu_item_id = item.id AND period.ends_at > (now() AT TIME ZONE tz)::TIME
+    ) THEN
+      RAISE EXCEPTION '% is no longer being served today', item.name;
+    END IF;
+
+    IF pickup_at IS NOT NULL AND (pickup_at AT TIME ZONE tz)::DATE <> order_day THEN
+      RAISE EXCEPTION 'Pickup time must be on %', to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    charged_at := CASE
+      WHEN order_day = today THEN new_order.created_at
+      ELSE COALESCE(pickup_at, order_day::TIMESTAMP AT TIME ZONE tz)
+    END;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, offering_id, amount, quantity, transaction_date)
+    VALUES (
+      buyer,
+      new_order.id,
+      item.id,
+      offering.id,
+      COALESCE(offering.price_override, item.price) * line_quantity,
+      line_quantity,
+      charged_at
+    );
+  END LOOP;
+
+  UPDATE public.orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id),
+    service_date = order_day
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer, charged_at);
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,217 @@
+-- Track how many of an offering's portions have been sold; it sells out once they're all gone
+ALTER TABLE public.menu_offerings
+  ADD COLUMN portions_sold INTEGER NOT NULL DEFAULT 0 CHECK (portions_sold >= 0),
+  ADD COLUMN is_sold_out BOOLEAN GENERATED ALWAYS AS (portion_count IS NOT NULL AND portions_sold >= portion_count) STORED;
+
+UPDATE public.menu_offerings o
+SET portions_sold = sold.quantity
+FROM (
+  SELECT offering_id, SUM(quantity)::INTEGER AS quantity
+  FROM public.transactions
+  WHERE offering_id IS NOT NULL
+  GROUP BY offering_id
+) sold
+WHERE sold.offering_id = o.id;
+
+-- Checkout decrements stock and refuses to sell more portions than were prepared
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  cart_items JSONB,
+  pickup_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  service_date DATE DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  line JSONB;
+  offering public.menu_offerings;
+  item public.menu_items;
+  line_quantity INTEGER;
+  new_order public.orders;
+  tz TEXT;
+  today DATE;
+  order_day DATE := service_date;
+  charged_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF buyer IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF cart_items IS NULL OR jsonb_typeof(cart_items) <> 'array' OR jsonb_array_length(cart_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF pickup_at IS NOT NULL AND pickup_at < now() THEN
+    RAISE EXCEPTION 'Pickup time has already passed';
+  END IF;
+
+  INSERT INTO public.orders (user_id, pickup_time)
+  VALUES (buyer, pickup_at)
+  RETURNING * INTO new_order;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(cart_items) LOOP
+    line_quantity := (line->>'quantity')::INTEGER;
+    IF line_quantity IS NULL OR line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for menu offering %', line->>'offering_id';
+    END IF;
+
+    -- Lock the offering so concurrent checkouts can't sell the same last portions
+    SELECT * INTO offering FROM public.menu_offerings WHERE id = (line->>'offering_id')::UUID FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu offering % does not exist', line->>'offering_id';
+    END IF;
+
+    SELECT * INTO item FROM public.menu_items WHERE id = offering.menu_item_id;
+
+    IF NOT offering.is_available OR NOT item.is_active THEN
+      RAISE EXCEPTION '% is not available', item.name;
+    END IF;
+
+    IF offering.is_sold_out THEN
+      RAISE EXCEPTION '% is sold out', item.name;
+    END IF;
+
+    IF offering.portion_count IS NOT NULL AND offering.portions_sold + line_quantity > offering.portion_count THEN
+      RAISE EXCEPTION 'Only % left of %', offering.portion_count - offering.portions_sold, item.name;
+    END IF;
+
+    SELECT time_zone INTO tz FROM public.cafeterias WHERE id = item.cafeteria_id;
+    today := public.campus_today(tz);
+    order_day := COALESCE(order_day, today);
+
+    IF order_day < today THEN
+      RAISE EXCEPTION 'Orders cannot be placed for a past day';
+    END IF;
+
+    IF offering.offered_on <> order_day THEN
+      RAISE EXCEPTION '% is not on the menu for %', item.name, to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    IF order_day = today AND EXISTS (
+      SELECT 1 FROM public.menu_item_meal_periods WHERE menu_item_id = item.id
+    ) AND NOT EXISTS (
+      SELECT 1
+      FROM public.menu_item_meal_periods link
+      JOIN public.meal_periods period ON period.id = link.meal_period_id
+      WHERE link.menu_item_id = item.id AND period.ends_at > (now() AT TIME ZONE tz)::TIME
+    ) THEN
+      RAISE EXCEPTION '% is no longer being served today', item.name;
+    END IF;
+
+    IF pickup_at IS NOT NULL AND (pickup_at AT TIME ZONE tz)::DATE <> order_day THEN
+      RAISE EXCEPTION 'Pickup time must be on %', to_char(order_day, 'FMDay, Mon FMDD');
+    END IF;
+
+    charged_at := CASE
+      WHEN order_day = today THEN new_order.created_at
+      ELSE COALESCE(pickup_at, order_day::TIMESTAMP AT TIME ZONE tz)
+    END;
+
+    INSERT INTO public.transactions (user_id, order_id, menu_item_id, offering_id, amount, quantity, transaction_date)
+    VALUES (
+      buyer,
+      new_order.id,
+      item.id,
+      offering.id,
+      COALESCE(offering.price_override, item.price) * line_quantity,
+      line_quantity,
+      charged_at
+    );
+
+    UPDATE public.menu_offerings
+    SET portions_sold = portions_sold + line_quantity
+    WHERE id = offering.id;
+  END LOOP;
+
+  UPDATE public.orders
+  SET
+    total_amount = (SELECT COALESCE(SUM(amount), 0) FROM public.transactions WHERE order_id = new_order.id),
+    service_date = order_day
+  WHERE id = new_order.id
+  RETURNING * INTO new_order;
+
+  PERFORM public.enforce_budget_limits(buyer, charged_at);
+
+  RETURN new_order;
+END;
+$$;
+
+-- Offerings carry their cafeteria so stock changes can be followed per dining hall
+ALTER TABLE public.menu_offerings
+  ADD COLUMN cafeteria_id UUID REFERENCES public.cafeterias(id) ON DELETE CASCADE;
+
+UPDATE public.menu_offerings o
+SET cafeteria_id = dish.cafeteria_id
+FROM public.menu_items dish
+WHERE dish.id = o.menu_item_id;
+
+ALTER TABLE public.menu_offerings ALTER COLUMN cafeteria_id SET NOT NULL;
+
+CREATE INDEX idx_menu_offerings_cafeteria_id_offered_on ON public.menu_offerings(cafeteria_id, offered_on);
+
+CREATE OR REPLACE FUNCTION public.set_menu_offering_cafeteria()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.cafeteria_id := (SELECT cafeteria_id FROM public.menu_items WHERE id = NEW.menu_item_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_menu_offering_cafeteria
+BEFORE INSERT OR UPDATE OF menu_item_id ON public.menu_offerings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_menu_offering_cafeteria();
+
+-- Recurrences remember the portions and price to serve each week
+ALTER TABLE public.recurring_menu_items
+  ADD COLUMN price_override DECIMAL(10,2) CHECK (price_override IS NULL OR price_override >= 0),
+  ADD COLUMN portion_count INTEGER CHECK (portion_count IS NULL OR portion_count >= 0);
+
+UPDATE public.recurring_menu_items r
+SET price_override = latest.price_override, portion_count = latest.portion_count
+FROM (
+  SELECT DISTINCT ON (recurring_item_id) recurring_item_id, price_override, portion_count
+  FROM public.menu_offerings
+  WHERE recurring_item_id IS NOT NULL
+  ORDER BY recurring_item_id, offered_on DESC
+) latest
+WHERE latest.recurring_item_id = r.id;
+
+CREATE OR REPLACE FUNCTION public.generate_recurring_menu_items(cafeteria_uuid UUID, from_date DATE, to_date DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  created INTEGER;
+BEGIN
+  IF NOT public.is_cafeteria_admin(auth.uid(), cafeteria_uuid) THEN
+    RAISE EXCEPTION 'Not allowed to plan this cafeteria''s menu';
+  END IF;
+
+  INSERT INTO public.menu_offerings (menu_item_id, recurring_item_id, offered_on, price_override, portion_count)
+  SELECT r.menu_item_id, r.id, day::DATE, r.price_override, r.portion_count
+  FROM public.recurring_menu_items r
+  JOIN public.menu_items dish ON dish.id = r.menu_item_id AND dish.is_active
+  CROSS JOIN generate_series(
+    GREATEST(from_date, public.campus_today((SELECT time_zone FROM public.cafeterias WHERE id = cafeteria_uuid))),
+    to_date,
+    INTERVAL '1 day'
+  ) AS day
+  WHERE r.cafeteria_id = cafeteria_uuid
+    AND EXTRACT(DOW FROM day) = r.weekday
+    AND day::DATE >= r.starts_on
+    AND (r.ends_on IS NULL OR day::DATE <= r.ends_on)
+  ON CONFLICT (menu_item_id, offered_on) DO NOTHING;
+
+  GET DIAGNOSTICS created = ROW_COUNT;
+  RETURN created;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Broadcast menu changes so students see availability, price and stock updates live
+ALTER TABLE public.menu_items REPLICA IDENTITY FULL;
+ALTER TABLE public.menu_offerings REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.menu_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.menu_offerings;
@@ -0,0 +1,10 @@
+-- Per-serving nutrition facts and the major food allergens for each dish
+ALTER TABLE public.menu_items
+  ADD COLUMN calories INTEGER CHECK (calories IS NULL OR calories >= 0),
+  ADD COLUMN protein_g NUMERIC(6,1) CHECK (protein_g IS NULL OR protein_g >= 0),
+  ADD COLUMN carbs_g NUMERIC(6,1) CHECK (carbs_g IS NULL OR carbs_g >= 0),
+  ADD COLUMN fat_g NUMERIC(6,1) CHECK (fat_g IS NULL OR fat_g >= 0),
+  ADD COLUMN sodium_mg INTEGER CHECK (sodium_mg IS NULL OR sodium_mg >= 0),
+  ADD COLUMN allergens TEXT[] NOT NULL DEFAULT '{}' CHECK (
+    allergens <@ ARRAY['milk', 'eggs', 'fish', 'shellfish', 'tree_nuts', 'peanuts', 'wheat', 'soy', 'sesame']::TEXT[]
+  );
@@ -0,0 +1,5 @@
+-- Food allergies a student wants kept off their menu, using the same list as menu_items.allergens
+ALTER TABLE public.profiles
+  ADD COLUMN allergies TEXT[] NOT NULL DEFAULT '{}' CHECK (
+    allergies <@ ARRAY['milk', 'eggs', 'fish', 'shellfish', 'tree_nuts', 'peanuts', 'wheat', 'soy', 'sesame']::TEXT[]
+  );
@@ -0,0 +1,190 @@
+-- Managed vocabulary for menu categories and dietary tags. Ids are lowercase slugs so the
+-- existing text columns can keep storing them and free-typed variants collapse together.
+CREATE TABLE public.menu_categories (
+  id TEXT NOT NULL PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Which half of a meal the recommender fills with the category's dishes
+  slot TEXT NOT NULL DEFAULT 'side' CHECK (slot IN ('main', 'side')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Two categories with the same label would show up twice in every picker and filter
+CREATE UNIQUE INDEX menu_categories_label_key ON public.menu_categories (lower(label));
+
+CREATE TABLE public.dietary_tags (
+  id TEXT NOT NULL PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  label TEXT NOT NULL,
+  -- Whether students can pick the tag as a dietary preference on their profile
+  is_preference BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.menu_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dietary_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view menu categories" ON public.menu_categories FOR SELECT USING (true);
+
+CREATE POLICY "System admins can manage menu categories"
+ON public.menu_categories
+FOR ALL
+USING (public.has_role(auth.uid(), 'system_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'system_admin'));
+
+CREATE POLICY "Anyone can view dietary tags" ON public.dietary_tags FOR SELECT USING (true);
+
+CREATE POLICY "System admins can manage dietary tags"
+ON public.dietary_tags
+FOR ALL
+USING (public.has_role(auth.uid(), 'system_admin'))
+WITH CHECK (public.has_role(auth.uid(), 'system_admin'));
+
+CREATE OR REPLACE FUNCTION public.to_vocabulary_id(term TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(trim(BOTH '-' FROM regexp_replace(lower(trim(term)), '[^a-z0-9]+', '-', 'g')), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_vocabulary_ids(terms TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT id ORDER BY id), '{}')
+  FROM (SELECT public.to_vocabulary_id(term) AS id FROM unnest(terms) term) ids
+  WHERE id IS NOT NULL;
+$$;
+
+-- Seed the vocabulary from the options the app offered, then from whatever was typed in
+INSERT INTO public.menu_categories (id, label, sort_order, slot) VALUES
+  ('appetizer', 'Appetizer', 1, 'side'),
+  ('main', 'Main Course', 2, 'main'),
+  ('dessert', 'Dessert', 3, 'side'),
+  ('beverage', 'Beverage', 4, 'side'),
+  ('snack', 'Snack', 5, 'side'),
+  ('salad', 'Salad', 6, 'side'),
+  ('soup', 'Soup', 7, 'side');
+
+-- Labels the app and the sample data used map onto the seeded ids; anything else is slugged
+UPDATE public.menu_items
+SET category = CASE lower(trim(category))
+  WHEN 'main course' THEN 'main'
+  WHEN 'main courses' THEN 'main'
+  WHEN 'mains' THEN 'main'
+  WHEN 'entree' THEN 'main'
+  WHEN 'entrees' THEN 'main'
+  WHEN 'appetizers' THEN 'appetizer'
+  WHEN 'starter' THEN 'appetizer'
+  WHEN 'starters' THEN 'appetizer'
+  WHEN 'desserts' THEN 'dessert'
+  WHEN 'beverages' THEN 'beverage'
+  WHEN 'drink' THEN 'beverage'
+  WHEN 'drinks' THEN 'beverage'
+  WHEN 'snacks' THEN 'snack'
+  WHEN 'salads' THEN 'salad'
+  WHEN 'soups' THEN 'soup'
+  ELSE COALESCE(public.to_vocabulary_id(category), 'main')
+END;
+
+-- A free-typed variant whose label matches an existing category joins that category
+UPDATE public.menu_items m
+SET category = c.id
+FROM public.menu_categories c
+WHERE lower(c.label) = lower(replace(m.category, '-', ' '))
+  AND c.id <> m.category;
+
+-- Until an admin says otherwise, slugs naming a main course keep counting as one
+INSERT INTO public.menu_categories (id, label, sort_order, slot)
+SELECT DISTINCT category, initcap(replace(category, '-', ' ')), 100,
+  CASE WHEN category ~ '(main|entree)' THEN 'main' ELSE 'side' END
+FROM public.menu_items
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.menu_items
+  ADD CONSTRAINT menu_items_category_fkey FOREIGN KEY (category) REFERENCES public.menu_categories(id);
+
+INSERT INTO public.dietary_tags (id, label, is_preference) VALUES
+  ('vegetarian', 'Vegetarian', true),
+  ('vegan', 'Vegan', true),
+  ('gluten-free', 'Gluten-Free', true),
+  ('dairy-free', 'Dairy-Free', true),
+  ('nut-free', 'Nut-Free', true),
+  ('low-carb', 'Low-Carb', true),
+  ('keto', 'Keto', true),
+  ('halal', 'Halal', true),
+  ('kosher', 'Kosher', true),
+  ('organic', 'Organic', true),
+  ('gluten', 'Contains Gluten', false),
+  ('nuts', 'Contains Nuts', false),
+  ('protein', 'High Protein', false);
+
+UPDATE public.menu_items SET dietary_tags = public.normalize_vocabulary_ids(dietary_tags);
+UPDATE public.profiles SET dietary_preferences = public.normalize_vocabulary_ids(dietary_preferences);
+
+INSERT INTO public.dietary_tags (id, label)
+SELECT DISTINCT tag, initcap(replace(tag, '-', ' '))
+FROM public.menu_items, unnest(dietary_tags) tag
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.dietary_tags (id, label, is_preference)
+SELECT DISTINCT preference, initcap(replace(preference, '-', ' ')), true
+FROM public.profiles, unnest(dietary_preferences) preference
+ON CONFLICT (id) DO UPDATE SET is_preference = true;
+
+-- Arrays can't carry foreign keys, so check the ids on write instead
+CREATE OR REPLACE FUNCTION public.validate_dietary_tag_ids()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  unknown_ids TEXT;
+BEGIN
+  SELECT string_agg(tag_id, ', ') INTO unknown_ids
+  FROM jsonb_array_elements_text(COALESCE(to_jsonb(NEW)->TG_ARGV[0], '[]'::JSONB)) tag_id
+  WHERE NOT EXISTS (SELECT 1 FROM public.dietary_tags WHERE id = tag_id);
+
+  IF unknown_ids IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown dietary tag: %', unknown_ids;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_menu_item_dietary_tags
+BEFORE INSERT OR UPDATE OF dietary_tags ON public.menu_items
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_dietary_tag_ids('dietary_tags');
+
+CREATE TRIGGER validate_profile_dietary_preferences
+BEFORE INSERT OR UPDATE OF dietary_preferences ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_dietary_tag_ids('dietary_preferences');
+
+-- Retiring a tag takes it off every dish and profile that used it
+CREATE OR REPLACE FUNCTION public.remove_deleted_dietary_tag()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.menu_items
+  SET dietary_tags = array_remove(dietary_tags, OLD.id)
+  WHERE OLD.id = ANY(dietary_tags);
+
+  UPDATE public.profiles
+  SET dietary_preferences = array_remove(dietary_preferences, OLD.id)
+  WHERE OLD.id = ANY(dietary_preferences);
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER remove_deleted_dietary_tag
+AFTER DELETE ON public.dietary_tags
+FOR EACH ROW
+EXECUTE FUNCTION public.remove_deleted_dietary_tag();
@@ -0,0 +1,7 @@
+-- Daily nutrition targets students measure their purchases against
+ALTER TABLE public.profiles
+  ADD COLUMN calorie_goal INTEGER CHECK (calorie_goal IS NULL OR calorie_goal > 0),
+  ADD COLUMN protein_goal_g NUMERIC(6,1) CHECK (protein_goal_g IS NULL OR protein_goal_g > 0),
+  ADD COLUMN carbs_goal_g NUMERIC(6,1) CHECK (carbs_goal_g IS NULL OR carbs_goal_g > 0),
+  ADD COLUMN fat_goal_g NUMERIC(6,1) CHECK (fat_goal_g IS NULL OR fat_goal_g > 0),
+  ADD COLUMN sodium_goal_mg INTEGER CHECK (sodium_goal_mg IS NULL OR sodium_goal_mg > 0);
@@ -0,0 +1,20 @@
+-- How many portions of each dish a dining hall has sold recently. Students can only read
+-- their own transactions, so this exposes the aggregate counts and nothing else.
+CREATE OR REPLACE FUNCTION public.menu_item_popularity(
+  cafeteria_uuid UUID,
+  since TIMESTAMP WITH TIME ZONE DEFAULT now() - INTERVAL '30 days'
+)
+RETURNS TABLE (menu_item_id UUID, order_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.menu_item_id, SUM(t.quantity)::BIGINT
+  FROM public.transactions t
+  JOIN public.menu_items m ON m.id = t.menu_item_id
+  WHERE m.cafeteria_id = cafeteria_uuid
+    AND t.transaction_date >= since
+    AND t.transaction_date <= now()
+  GROUP BY t.menu_item_id;
+$$;
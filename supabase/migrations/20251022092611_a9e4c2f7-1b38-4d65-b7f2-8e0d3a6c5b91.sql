@@ -0,0 +1,49 @@
+-- Dish photos live in Storage under <cafeteria_id>/; the catalog row keeps the object paths
+ALTER TABLE public.menu_items
+  ADD COLUMN image_path TEXT,
+  ADD COLUMN thumbnail_path TEXT;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('menu-images', 'menu-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view menu images"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'menu-images');
+
+CREATE POLICY "Cafeteria admins can upload their cafeteria's menu images"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'menu-images'
+  AND EXISTS (
+    SELECT 1 FROM public.cafeterias c
+    WHERE c.id::TEXT = (storage.foldername(name))[1]
+      AND public.is_cafeteria_admin(auth.uid(), c.id)
+  )
+);
+
+CREATE POLICY "Cafeteria admins can update their cafeteria's menu images"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'menu-images'
+  AND EXISTS (
+    SELECT 1 FROM public.cafeterias c
+    WHERE c.id::TEXT = (storage.foldername(name))[1]
+      AND public.is_cafeteria_admin(auth.uid(), c.id)
+  )
+);
+
+CREATE POLICY "Cafeteria admins can delete their cafeteria's menu images"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'menu-images'
+  AND EXISTS (
+    SELECT 1 FROM public.cafeterias c
+    WHERE c.id::TEXT = (storage.foldername(name))[1]
+      AND public.is_cafeteria_admin(auth.uid(), c.id)
+  )
+);
@@ -0,0 +1,123 @@
+-- Student ratings and short reviews of dishes they've bought
+CREATE TABLE public.menu_item_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 500),
+  -- Moderation: hidden reviews leave the public view and the average; flagged ones are marked for follow-up
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  is_flagged BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (menu_item_id, user_id)
+);
+
+CREATE INDEX idx_menu_item_reviews_user_id ON public.menu_item_reviews(user_id);
+
+ALTER TABLE public.menu_item_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view visible reviews"
+ON public.menu_item_reviews
+FOR SELECT
+USING (NOT is_hidden OR auth.uid() = user_id);
+
+CREATE POLICY "Cafeteria admins can view reviews of their dishes"
+ON public.menu_item_reviews
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.menu_items m
+    WHERE m.id = menu_item_id AND public.is_cafeteria_admin(auth.uid(), m.cafeteria_id)
+  )
+);
+
+-- Only students who have actually had the dish can review it: the order was picked up,
+-- or its service day has come. A pre-order for a later day doesn't count yet.
+CREATE POLICY "Customers can review dishes they've bought"
+ON public.menu_item_reviews
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND NOT is_hidden
+  AND NOT is_flagged
+  AND EXISTS (
+    SELECT 1 FROM public.transactions t
+    JOIN public.orders o ON o.id = t.order_id
+    JOIN public.menu_items m ON m.id = t.menu_item_id
+    WHERE t.user_id = auth.uid()
+      AND t.menu_item_id = menu_item_reviews.menu_item_id
+      AND (
+        o.status = 'completed'
+        OR o.service_date <= public.campus_today((SELECT time_zone FROM public.cafeterias WHERE id = m.cafeteria_id))
+      )
+  )
+);
+
+CREATE POLICY "Users can update their own reviews"
+ON public.menu_item_reviews
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Cafeteria admins can moderate reviews of their dishes"
+ON public.menu_item_reviews
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.menu_items m
+    WHERE m.id = menu_item_id AND public.is_cafeteria_admin(auth.uid(), m.cafeteria_id)
+  )
+);
+
+CREATE POLICY "Users can delete their own reviews"
+ON public.menu_item_reviews
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_menu_item_reviews_updated_at
+BEFORE UPDATE ON public.menu_item_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Authors may edit their rating and comment, but only admins can change moderation state
+CREATE OR REPLACE FUNCTION public.protect_review_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.is_hidden IS DISTINCT FROM OLD.is_hidden OR NEW.is_flagged IS DISTINCT FROM OLD.is_flagged)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.menu_items m
+      WHERE m.id = NEW.menu_item_id AND public.is_cafeteria_admin(auth.uid(), m.cafeteria_id)
+    ) THEN
+    RAISE EXCEPTION 'Only cafeteria admins can moderate reviews';
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.menu_item_id IS DISTINCT FROM OLD.menu_item_id THEN
+    RAISE EXCEPTION 'A review cannot be moved to another user or dish';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_menu_item_review_moderation
+BEFORE UPDATE ON public.menu_item_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_review_moderation();
+
+-- Average rating per dish at a dining hall, leaving out hidden reviews
+CREATE OR REPLACE FUNCTION public.menu_item_ratings(cafeteria_uuid UUID)
+RETURNS TABLE (menu_item_id UUID, average_rating NUMERIC, review_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.menu_item_id, ROUND(AVG(r.rating), 1), COUNT(*)::BIGINT
+  FROM public.menu_item_reviews r
+  JOIN public.menu_items m ON m.id = r.menu_item_id
+  WHERE m.cafeteria_id = cafeteria_uuid
+    AND NOT r.is_hidden
+  GROUP BY r.menu_item_id;
+$$;
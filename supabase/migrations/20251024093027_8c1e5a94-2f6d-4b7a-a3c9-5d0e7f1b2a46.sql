@@ -0,0 +1,24 @@
+-- Dishes a student has starred so they can find them again quickly
+CREATE TABLE public.menu_item_favorites (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  menu_item_id UUID NOT NULL REFERENCES public.menu_items(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, menu_item_id)
+);
+
+ALTER TABLE public.menu_item_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own favorites"
+ON public.menu_item_favorites
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own favorites"
+ON public.menu_item_favorites
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own favorites"
+ON public.menu_item_favorites
+FOR DELETE
+USING (auth.uid() = user_id);